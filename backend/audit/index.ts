@@ -0,0 +1,32 @@
+import { NextFunction, Request, Response } from "express";
+import * as auditService from "../services/auditService";
+import { Principal } from "../types";
+
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+/**
+ * Record every mutating API call in the audit log once its response is sent, including calls
+ * refused for a missing key or role. A failure to record is logged and doesn't affect the response.
+ */
+export const recordMutations = (req: Request, res: Response, next: NextFunction): void => {
+  if (!MUTATING_METHODS.has(req.method)) {
+    next();
+    return;
+  }
+
+  res.once("close", () => {
+    const finished = res.writableFinished;
+    auditService
+      .recordCall({
+        principal: res.locals.principal as Principal | undefined,
+        ip: req.ip,
+        method: req.method,
+        path: req.originalUrl.split("?")[0],
+        statusCode: finished ? res.statusCode : null,
+        outcome: !finished ? "aborted" : res.statusCode < 400 ? "success" : "failure",
+        payload: { query: req.query, body: req.body },
+      })
+      .catch((error) => console.error("Error recording audit entry:", (error as Error).message));
+  });
+  next();
+};
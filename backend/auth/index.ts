@@ -0,0 +1,64 @@
+import { NextFunction, Request, Response } from "express";
+import * as authService from "../services/authService";
+import { ApiKeyRole, Principal } from "../types";
+
+/**
+ * The API key of a request, from an "Authorization: Bearer <key>" or "X-API-Key: <key>" header
+ */
+const readApiKey = (req: Request): string | undefined => {
+  const authorization = req.get("Authorization");
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return bearer ? bearer[1] : req.get("X-API-Key") || undefined;
+};
+
+/**
+ * Refuse requests without a valid API key; the caller is stored in res.locals.principal
+ */
+export const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const key = readApiKey(req);
+    if (!key) {
+      res.status(401).json({ success: false, error: "API key required" });
+      return;
+    }
+
+    const principal = await authService.authenticate(key);
+    if (!principal) {
+      res.status(401).json({ success: false, error: "Invalid or revoked API key" });
+      return;
+    }
+
+    res.locals.principal = principal;
+    next();
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+};
+
+/**
+ * Refuse requests from callers without the given role. Must run after authenticate.
+ */
+export const requireRole =
+  (role: ApiKeyRole) =>
+  (_req: Request, res: Response, next: NextFunction): void => {
+    if (!authService.hasRole(res.locals.principal as Principal | undefined, role)) {
+      res.status(403).json({ success: false, error: `Requires the ${role} role` });
+      return;
+    }
+    next();
+  };
+
+/**
+ * Default permissions for every route: viewers may read, writes need an analyst.
+ * Routes that need more add requireRole("admin") themselves.
+ */
+export const authorizeByMethod = (req: Request, res: Response, next: NextFunction): void =>
+  requireRole(["GET", "HEAD", "OPTIONS"].includes(req.method) ? "viewer" : "analyst")(
+    req,
+    res,
+    next
+  );
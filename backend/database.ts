@@ -0,0 +1,163 @@
+import sqlite3 from 'sqlite3';
+import path from 'path';
+
+// Use environment variable for Docker, fallback to local path
+const dbPath = process.env.DATABASE_PATH || path.resolve(__dirname, '../database/sayari.db');
+
+const BUSY_TIMEOUT_MS = 5000;
+const MAX_CACHED_STATEMENTS = 100;
+
+export interface RunResult {
+    lastID: number;
+    changes: number;
+}
+
+/**
+ * Query API shared by the pooled connection and by an open transaction
+ */
+export interface DatabaseClient {
+    run(sql: string, params?: unknown[]): Promise<RunResult>;
+    get<T>(sql: string, params?: unknown[]): Promise<T | undefined>;
+    all<T>(sql: string, params?: unknown[]): Promise<T[]>;
+    exec(sql: string): Promise<void>;
+}
+
+let db: sqlite3.Database | undefined;
+const statements = new Map<string, sqlite3.Statement>();
+
+// Every operation is chained here so a transaction never interleaves with other queries on the shared connection
+let queue: Promise<unknown> = Promise.resolve();
+
+const getDatabase = (): sqlite3.Database => {
+    if (!db) {
+        console.log('Using database at:', dbPath);
+        db = new sqlite3.Database(dbPath);
+        db.configure('busyTimeout', BUSY_TIMEOUT_MS);
+        db.exec('PRAGMA journal_mode = WAL; PRAGMA synchronous = NORMAL;', (err) => {
+            if (err) console.error('Error configuring SQLite:', err.message);
+        });
+    }
+    return db;
+};
+
+/**
+ * Return a cached prepared statement, evicting the least recently used one when the cache is full
+ */
+const getStatement = (sql: string): sqlite3.Statement => {
+    let statement = statements.get(sql);
+    if (statement) {
+        // Re-insert to mark as most recently used
+        statements.delete(sql);
+    } else {
+        statement = getDatabase().prepare(sql);
+        if (statements.size >= MAX_CACHED_STATEMENTS) {
+            const [oldestSql, oldest] = statements.entries().next().value as [string, sqlite3.Statement];
+            statements.delete(oldestSql);
+            oldest.finalize();
+        }
+    }
+    statements.set(sql, statement);
+    return statement;
+};
+
+// Runs directly on the connection; only called from inside the queue
+const client: DatabaseClient = {
+    run: (sql, params = []) =>
+        new Promise((resolve, reject) => {
+            getStatement(sql).run(params, function(err) {
+                if (err) reject(err);
+                else resolve({ lastID: this.lastID, changes: this.changes });
+            });
+        }),
+    get: <T>(sql: string, params: unknown[] = []) =>
+        new Promise<T | undefined>((resolve, reject) => {
+            const statement = getStatement(sql);
+            statement.get(params, (err, row) => {
+                // Release the statement so it doesn't hold a read lock between uses
+                statement.reset();
+                if (err) reject(err);
+                else resolve(row as T | undefined);
+            });
+        }),
+    all: <T>(sql: string, params: unknown[] = []) =>
+        new Promise<T[]>((resolve, reject) => {
+            getStatement(sql).all(params, (err, rows) => {
+                if (err) reject(err);
+                else resolve(rows as T[]);
+            });
+        }),
+    exec: (sql) =>
+        new Promise((resolve, reject) => {
+            getDatabase().exec(sql, (err) => (err ? reject(err) : resolve()));
+        }),
+};
+
+const enqueue = <T>(operation: () => Promise<T>): Promise<T> => {
+    const result = queue.then(operation);
+    queue = result.catch(() => undefined);
+    return result;
+};
+
+/**
+ * Run a statement that doesn't return rows
+ */
+export const run = (sql: string, params?: unknown[]): Promise<RunResult> =>
+    enqueue(() => client.run(sql, params));
+
+/**
+ * Fetch the first row of a query
+ */
+export const get = <T>(sql: string, params?: unknown[]): Promise<T | undefined> =>
+    enqueue(() => client.get<T>(sql, params));
+
+/**
+ * Fetch all rows of a query
+ */
+export const all = <T>(sql: string, params?: unknown[]): Promise<T[]> =>
+    enqueue(() => client.all<T>(sql, params));
+
+/**
+ * Execute one or more statements without parameters, e.g. a migration
+ */
+export const exec = (sql: string): Promise<void> =>
+    enqueue(() => client.exec(sql));
+
+/**
+ * Run work inside a transaction that is committed if it resolves and rolled back if it throws.
+ * Use only the client passed to work; calling the module-level functions (or nesting
+ * transactions) from inside it would wait on the transaction itself and deadlock.
+ */
+export const transaction = <T>(work: (tx: DatabaseClient) => Promise<T>): Promise<T> =>
+    enqueue(async () => {
+        await client.exec('BEGIN IMMEDIATE');
+        try {
+            const result = await work(client);
+            await client.exec('COMMIT');
+            return result;
+        } catch (error) {
+            await client.exec('ROLLBACK');
+            throw error;
+        }
+    });
+
+/**
+ * Wait for in-flight queries, then finalize cached statements and close the connection
+ */
+export const closeDatabase = (): Promise<void> =>
+    enqueue(async () => {
+        if (!db) return;
+        const connection = db;
+        db = undefined;
+
+        await Promise.all(
+            Array.from(statements.values()).map(
+                (statement) => new Promise<void>((resolve) => statement.finalize(() => resolve()))
+            )
+        );
+        statements.clear();
+
+        await new Promise<void>((resolve, reject) => {
+            connection.close((err) => (err ? reject(err) : resolve()));
+        });
+        console.log('SQLite database connection closed.');
+    });
@@ -1,25 +1,62 @@
 import "dotenv/config";
 import { syncBusinessesToMemgraph } from "./utils/syncBusinesses";
-import { clearMemgraphData } from "./utils/cleanDatabase";
-import { initializeDatabase } from "./utils/initDatabase";
+import { resetAllData } from "./utils/cleanDatabase";
+import { runMigrations } from "./utils/migrate";
+import { seedDatabase } from "./utils/seedDatabase";
 import express, { Request, Response } from "express";
 import cors from "cors";
 import http from "http";
 import { Server, Socket } from "socket.io";
+import { recordMutations } from "./audit";
+import { authenticate, authorizeByMethod } from "./auth";
+import * as authService from "./services/authService";
 import * as graphService from "./services/graphService";
+import * as neighborhoodService from "./services/neighborhoodService";
+import * as subscriptionService from "./services/subscriptionService";
+import { getEventPosition } from "./services/eventLogService";
+import {
+  apiKeyRoom,
+  emitBusinessDeleted,
+  emitBusinessUpdated,
+  replayMissedEvents,
+} from "./services/notificationService";
+import { refreshRiskScores } from "./services/riskService";
+import * as transactionService from "./services/transactionService";
+import {
+  startOutboxDispatcher,
+  stopOutboxDispatcher,
+} from "./services/outboxService";
+import { closeDatabase } from "./database";
+import { closeDriver } from "./repositories/graphRepository";
+import { validate } from "./validation";
+import {
+  checkNeighborhoodQuery,
+  checkSubscriptionFilter,
+  neighborhoodQuerySchema,
+  resumeRequestSchema,
+  subscriptionFilterSchema,
+  unsubscribeSchema,
+} from "./validation/schemas";
+
+// Comma-separated origins allowed to call the API from a browser; "*" allows any origin
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || "http://localhost:5173")
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+const corsOrigin = CORS_ORIGINS.includes("*") ? "*" : CORS_ORIGINS;
 
 const app = express();
 const server = http.createServer(app);
 const io = new Server(server, {
   cors: {
-    origin: "*", // Allow all origins
+    origin: corsOrigin,
     methods: ["GET", "POST"],
   },
 });
 
 const PORT = process.env.PORT || 3000;
 
-app.use(cors());
+app.use(cors({ origin: corsOrigin }));
 
 // Middleware to parse JSON bodies
 app.use(express.json());
@@ -28,6 +65,10 @@ app.get("/", (_req: Request, res: Response) => {
   res.send("Hello, Sayari!");
 });
 
+// Every API route needs a key; viewers may read and analysts may also write.
+// Mutating calls are audited first, so refused ones are recorded too.
+app.use("/api", recordMutations, authenticate, authorizeByMethod);
+
 // Store the socket.io instance for use in routes
 app.set("io", io);
 
@@ -37,6 +78,98 @@ app.use("/api/businesses", businessesRoute);
 import transactionsRoute from "./routes/transactions";
 app.use("/api/transactions", transactionsRoute);
 
+import reconciliationRoute from "./routes/reconciliation";
+app.use("/api/reconciliation", reconciliationRoute);
+
+import analyticsRoute from "./routes/analytics";
+app.use("/api/analytics", analyticsRoute);
+
+import importsRoute from "./routes/imports";
+app.use("/api/imports", importsRoute);
+
+import graphRoute from "./routes/graph";
+app.use("/api/graph", graphRoute);
+
+import pathsRoute from "./routes/paths";
+app.use("/api/paths", pathsRoute);
+
+import cyclesRoute from "./routes/cycles";
+app.use("/api/cycles", cyclesRoute);
+
+import structuringRoute from "./routes/structuring";
+app.use("/api/structuring", structuringRoute);
+
+import alertRulesRoute from "./routes/alertRules";
+app.use("/api/alert-rules", alertRulesRoute);
+
+import alertsRoute from "./routes/alerts";
+app.use("/api/alerts", alertsRoute);
+
+import metricsRoute from "./routes/metrics";
+app.use("/api/metrics", metricsRoute);
+
+import communitiesRoute from "./routes/communities";
+app.use("/api/communities", communitiesRoute);
+
+import subscriptionsRoute from "./routes/subscriptions";
+app.use("/api/subscriptions", subscriptionsRoute);
+
+import apiKeysRoute from "./routes/apiKeys";
+app.use("/api/api-keys", apiKeysRoute);
+
+import auditRoute from "./routes/audit";
+app.use("/api/audit", auditRoute);
+
+/**
+ * Validate a neighborhood request received over a socket, the same way GET /api/graph/neighborhood does
+ * @returns The response in the REST format
+ */
+const loadNeighborhood = async (request: unknown) => {
+  const { value, errors } = validate(neighborhoodQuerySchema, request);
+  if (errors.length === 0) errors.push(...(await checkNeighborhoodQuery(value)));
+  if (errors.length > 0) {
+    return { success: false, error: "Validation failed", details: errors };
+  }
+  return { success: true, data: await neighborhoodService.getNeighborhood(value) };
+};
+
+/**
+ * A client's view of the graph: the whole graph, or only the neighborhood of the seeds given
+ * in the handshake (auth: { seeds, hops, maxNodes, ... }), with the version of the last graph delta it includes
+ * @returns The response in the REST format
+ */
+const loadSnapshot = async (socket: Socket) => {
+  // The next delta sent to the client follows on from the snapshot's version
+  if (socket.handshake.auth?.seeds === undefined) {
+    const snapshot = await graphService.getGraphSnapshot();
+    socket.data.graphVersion = snapshot.version;
+    return { success: true, data: snapshot };
+  }
+
+  const version = graphService.getGraphVersion();
+  const response = await loadNeighborhood(socket.handshake.auth);
+  if (!response.success) return response;
+  socket.data.graphVersion = version;
+  return { ...response, data: { ...response.data, version } };
+};
+
+// Clients send their API key in the handshake (auth: { apiKey }); socket events only read, so any role may connect
+io.use(async (socket, next) => {
+  try {
+    const principal = await authService.authenticate(socket.handshake.auth?.apiKey);
+    if (!principal) {
+      next(new Error("Invalid or missing API key"));
+      return;
+    }
+    socket.data.principal = principal;
+    // Revoking the key disconnects everyone in its room
+    if (principal.keyId !== null) socket.join(apiKeyRoom(principal.keyId));
+    next();
+  } catch (error) {
+    next(error as Error);
+  }
+});
+
 // WebSocket connection handling
 io.on("connection", (socket: Socket) => {
   console.log("Client connected:", socket.id);
@@ -44,18 +177,69 @@ io.on("connection", (socket: Socket) => {
   // Send initial data to the client when they connect
   const sendInitialData = async () => {
     try {
-      const { nodes, edges } = await graphService.getEnrichedGraphData();
-
-      socket.emit("initialData", {
-        nodes,
-        edges,
-      });
+      // Events from here on are sent to the client anyway, so it can resume from this position
+      const position = getEventPosition();
+      const response = await loadSnapshot(socket);
+      if (response.success) socket.emit("initialData", response.data, position);
+      else socket.emit("initialDataError", response);
     } catch (error) {
       console.error("Error sending initial data:", error);
     }
   };
 
-  sendInitialData();
+  // A reconnecting client keeps its data and subscriptions and only gets the events it missed, unless they are no longer available
+  const { value: resume } = validate(resumeRequestSchema, socket.handshake.auth);
+  if (resume.subscriptions) subscriptionService.restoreSubscriptions(socket, resume.subscriptions);
+  const resumed =
+    resume.epoch !== undefined &&
+    resume.lastSeq !== undefined &&
+    replayMissedEvents(socket, resume.epoch, resume.lastSeq, resume.graphVersion);
+  if (!resumed) sendInitialData();
+
+  // Resynchronize a client that missed a graph delta; the snapshot is returned through the acknowledgement
+  socket.on("getGraphSnapshot", async (ack?: (response: unknown) => void) => {
+    if (typeof ack !== "function") return;
+    try {
+      ack(await loadSnapshot(socket));
+    } catch (error) {
+      ack({ success: false, error: (error as Error).message });
+    }
+  });
+
+  // Expand the view on demand; the neighborhood is returned through the acknowledgement
+  socket.on("getNeighborhood", async (request: unknown, ack?: (response: unknown) => void) => {
+    if (typeof ack !== "function") return;
+    try {
+      ack(await loadNeighborhood(request));
+    } catch (error) {
+      ack({ success: false, error: (error as Error).message });
+    }
+  });
+
+  // Only receive graph deltas and alerts for matching transactions; the subscription is returned through the acknowledgement
+  socket.on("subscribe", (request: unknown, ack?: (response: unknown) => void) => {
+    const { value, errors } = validate(subscriptionFilterSchema, request);
+    if (errors.length === 0) errors.push(...checkSubscriptionFilter(value));
+    const response =
+      errors.length > 0
+        ? { success: false, error: "Validation failed", details: errors }
+        : { success: true, data: subscriptionService.subscribe(socket, value) };
+    if (typeof ack === "function") ack(response);
+  });
+
+  socket.on("unsubscribe", (request: unknown, ack?: (response: unknown) => void) => {
+    const { value, errors } = validate(unsubscribeSchema, request);
+    const response =
+      errors.length > 0
+        ? { success: false, error: "Validation failed", details: errors }
+        : { success: true, data: { removed: subscriptionService.unsubscribe(socket, value.id) } };
+    if (typeof ack === "function") ack(response);
+  });
+
+  socket.on("listSubscriptions", (ack?: (response: unknown) => void) => {
+    if (typeof ack !== "function") return;
+    ack({ success: true, data: subscriptionService.getSubscriptions(socket) });
+  });
 
   socket.on("disconnect", () => {
     console.log("Client disconnected:", socket.id);
@@ -65,21 +249,56 @@ io.on("connection", (socket: Socket) => {
 server.listen(PORT, async () => {
   console.log(`Server running on port ${PORT}`);
 
-  // Clean and reseed data on server start
+  // Bring both stores up to date without touching existing data
   try {
-    console.log("Cleaning databases on server start...");
+    // 1. Apply pending SQLite and Memgraph schema migrations
+    await runMigrations();
 
-    // 1. Clear Memgraph
-    await clearMemgraphData();
+    // 2. Destructive reset, only when explicitly requested
+    if (process.env.RESET_DATA_ON_START === "true") {
+      console.log("RESET_DATA_ON_START is set, deleting all data...");
+      await resetAllData();
+    }
 
-    // 2. Initialize SQLite with fresh data
-    await initializeDatabase();
+    // 3. Seed demo businesses into an empty database
+    await seedDatabase();
 
-    // 3. Sync SQLite data to Memgraph
+    // 4. Sync SQLite data to Memgraph
     await syncBusinessesToMemgraph();
 
-    console.log("Database cleaned and reseeded successfully");
+    console.log("Database initialization complete");
   } catch (error) {
     console.error("Error during database initialization:", error);
   }
+
+  // Compute risk scores in the background, so the first business list doesn't wait for them
+  refreshRiskScores();
+
+  // Apply pending graph mutations recorded in the SQLite outbox, retrying while Memgraph is unavailable
+  startOutboxDispatcher({
+    onTransactionApplied: (transaction) =>
+      transactionService.publishTransaction(io, transaction),
+    onBusinessDeleted: (payload) => emitBusinessDeleted(io, payload),
+    onBusinessRestored: (business) => emitBusinessUpdated(io, business),
+  });
+});
+
+// Stop accepting work, then release the SQLite connection and the Memgraph driver
+const shutdown = async (signal: string) => {
+  console.log(`Received ${signal}, shutting down...`);
+  stopOutboxDispatcher();
+  io.close();
+
+  try {
+    await closeDatabase();
+    await closeDriver();
+  } catch (error) {
+    console.error("Error during shutdown:", error);
+  } finally {
+    process.exit(0);
+  }
+};
+
+["SIGINT", "SIGTERM", "SIGUSR2"].forEach((signal) => {
+  process.once(signal, () => shutdown(signal));
 });
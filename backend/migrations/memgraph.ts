@@ -0,0 +1,62 @@
+import { Session } from "neo4j-driver";
+
+export interface MemgraphMigration {
+  version: number;
+  name: string;
+  up: (session: Session) => Promise<void>;
+}
+
+/**
+ * Run a schema statement, treating "already exists" as success so the
+ * migration can be replayed against a graph whose data was wiped but whose indexes were not
+ */
+const runSchemaStatement = async (session: Session, statement: string): Promise<void> => {
+  try {
+    await session.run(statement);
+  } catch (error) {
+    if (!/already exists/i.test((error as Error).message)) throw error;
+  }
+};
+
+/**
+ * Numbered Memgraph index/constraint migrations, applied in order and
+ * recorded as SchemaMigration nodes in Memgraph itself.
+ */
+export const memgraphMigrations: MemgraphMigration[] = [
+  {
+    version: 1,
+    name: "index_business_id",
+    up: (session) =>
+      runSchemaStatement(session, "CREATE INDEX ON :Business(business_id);"),
+  },
+  {
+    version: 2,
+    name: "unique_business_id",
+    up: (session) =>
+      runSchemaStatement(
+        session,
+        "CREATE CONSTRAINT ON (b:Business) ASSERT b.business_id IS UNIQUE;"
+      ),
+  },
+  {
+    version: 3,
+    name: "backfill_transaction_ids",
+    // Transactions created before IDs were introduced get one derived from their internal ID
+    up: async (session) => {
+      await session.run(
+        `
+        MATCH ()-[t:TRANSACTION]->()
+        WHERE t.id IS NULL
+        SET t.id = 'legacy-' + toString(id(t))
+        `
+      );
+    },
+  },
+  {
+    version: 4,
+    name: "index_transaction_id",
+    // Imports look up user-supplied transaction IDs across all edges
+    up: (session) =>
+      runSchemaStatement(session, "CREATE EDGE INDEX ON :TRANSACTION(id);"),
+  },
+];
@@ -0,0 +1,150 @@
+export interface SqliteMigration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+/**
+ * Numbered SQLite schema migrations, applied in order and recorded in schema_migrations.
+ * Never edit a migration that has shipped; add a new one instead.
+ */
+export const sqliteMigrations: SqliteMigration[] = [
+  {
+    version: 1,
+    name: "create_businesses",
+    up: `
+      CREATE TABLE IF NOT EXISTS businesses (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        business_id TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        industry TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+    `,
+  },
+  {
+    version: 2,
+    name: "create_graph_outbox",
+    up: `
+      CREATE TABLE IF NOT EXISTS graph_outbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        operation TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        idempotency_key TEXT UNIQUE,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        available_at INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        processed_at DATETIME
+      );
+      CREATE INDEX IF NOT EXISTS idx_graph_outbox_status ON graph_outbox (status, available_at);
+    `,
+  },
+  {
+    version: 3,
+    name: "create_import_jobs",
+    up: `
+      CREATE TABLE IF NOT EXISTS import_jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        source TEXT NOT NULL,
+        format TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'running',
+        last_line INTEGER NOT NULL DEFAULT 0,
+        rows_imported INTEGER NOT NULL DEFAULT 0,
+        rows_failed INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        completed_at DATETIME
+      );
+      CREATE INDEX IF NOT EXISTS idx_import_jobs_checksum ON import_jobs (checksum, status);
+      CREATE TABLE IF NOT EXISTS import_errors (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        job_id INTEGER NOT NULL REFERENCES import_jobs (id) ON DELETE CASCADE,
+        line INTEGER NOT NULL,
+        field TEXT NOT NULL,
+        message TEXT NOT NULL,
+        raw TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_import_errors_job ON import_errors (job_id, id);
+    `,
+  },
+  {
+    version: 4,
+    name: "create_alerts",
+    up: `
+      CREATE TABLE IF NOT EXISTS alert_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        description TEXT,
+        severity TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        definition TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE TABLE IF NOT EXISTS alerts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        rule_id INTEGER REFERENCES alert_rules (id) ON DELETE SET NULL,
+        rule_name TEXT NOT NULL,
+        severity TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open',
+        transaction_id TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        message TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (rule_id, transaction_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_alerts_status ON alerts (status, id);
+    `,
+  },
+  {
+    version: 5,
+    name: "create_api_keys",
+    up: `
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        role TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_used_at DATETIME,
+        revoked_at DATETIME
+      );
+    `,
+  },
+  {
+    version: 6,
+    name: "create_audit_log",
+    up: `
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        actor_key_id INTEGER,
+        role TEXT,
+        ip TEXT,
+        method TEXT NOT NULL,
+        path TEXT NOT NULL,
+        status_code INTEGER,
+        outcome TEXT NOT NULL,
+        payload_digest TEXT NOT NULL,
+        prev_hash TEXT NOT NULL,
+        hash TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log (actor, id);
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+      CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+    `,
+  },
+];
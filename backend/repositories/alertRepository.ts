@@ -0,0 +1,183 @@
+import * as db from '../database';
+import {
+    Alert,
+    AlertListQuery,
+    AlertRule,
+    AlertRuleDefinition,
+    AlertSeverity,
+    AlertStatus,
+    Transaction
+} from '../types';
+
+const toAlertRule = (row: any): AlertRule => ({
+    ...row,
+    enabled: row.enabled === 1,
+    definition: JSON.parse(row.definition)
+});
+
+const toAlert = ({ payload, ...row }: any): Alert => ({
+    ...row,
+    transaction: JSON.parse(payload)
+});
+
+/**
+ * Find all alert rules, oldest first
+ */
+export const findAllRules = async (): Promise<AlertRule[]> => {
+    const rows = await db.all('SELECT * FROM alert_rules ORDER BY id');
+    return rows.map(toAlertRule);
+};
+
+/**
+ * Find the rules that are evaluated on new transactions
+ */
+export const findEnabledRules = async (): Promise<AlertRule[]> => {
+    const rows = await db.all('SELECT * FROM alert_rules WHERE enabled = 1 ORDER BY id');
+    return rows.map(toAlertRule);
+};
+
+/**
+ * Find an alert rule by ID
+ */
+export const findRuleById = async (id: number): Promise<AlertRule | null> => {
+    const row = await db.get('SELECT * FROM alert_rules WHERE id = ?', [id]);
+    return row ? toAlertRule(row) : null;
+};
+
+/**
+ * Create an alert rule
+ */
+export const createRule = async (rule: {
+    name: string;
+    description: string | null;
+    severity: AlertSeverity;
+    enabled: boolean;
+    definition: AlertRuleDefinition;
+}): Promise<AlertRule> => {
+    const { lastID } = await db.run(
+        'INSERT INTO alert_rules (name, description, severity, enabled, definition) VALUES (?, ?, ?, ?, ?)',
+        [rule.name, rule.description, rule.severity, rule.enabled ? 1 : 0, JSON.stringify(rule.definition)]
+    );
+    return (await findRuleById(lastID)) as AlertRule;
+};
+
+/**
+ * Replace the stored fields of an alert rule
+ */
+export const updateRule = async (rule: AlertRule): Promise<AlertRule | null> => {
+    const { changes } = await db.run(
+        `UPDATE alert_rules
+         SET name = ?, description = ?, severity = ?, enabled = ?, definition = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [rule.name, rule.description, rule.severity, rule.enabled ? 1 : 0, JSON.stringify(rule.definition), rule.id]
+    );
+    return changes > 0 ? findRuleById(rule.id) : null;
+};
+
+/**
+ * Delete an alert rule. Its alerts are kept and detached from it.
+ * @returns Whether the rule existed
+ */
+export const deleteRule = async (id: number): Promise<boolean> => {
+    return db.transaction(async (tx) => {
+        await tx.run('UPDATE alerts SET rule_id = NULL WHERE rule_id = ?', [id]);
+        const { changes } = await tx.run('DELETE FROM alert_rules WHERE id = ?', [id]);
+        return changes > 0;
+    });
+};
+
+/**
+ * Record an alert. A rule alerts at most once per transaction.
+ * @returns The alert, or null if the rule had already alerted on this transaction
+ */
+export const insertAlert = async (
+    rule: AlertRule,
+    transaction: Transaction,
+    message: string
+): Promise<Alert | null> => {
+    const { lastID, changes } = await db.run(
+        `INSERT OR IGNORE INTO alerts (rule_id, rule_name, severity, transaction_id, payload, message)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [rule.id, rule.name, rule.severity, transaction.id, JSON.stringify(transaction), message]
+    );
+    return changes > 0 ? findAlertById(lastID) : null;
+};
+
+/**
+ * Find an alert by ID
+ */
+export const findAlertById = async (id: number): Promise<Alert | null> => {
+    const row = await db.get('SELECT * FROM alerts WHERE id = ?', [id]);
+    return row ? toAlert(row) : null;
+};
+
+/**
+ * Find alerts newest first, starting before the alert with the given ID
+ */
+export const findAlerts = async (
+    filters: Pick<AlertListQuery, 'status' | 'severity' | 'ruleId'>,
+    beforeId: number | undefined,
+    limit: number
+): Promise<Alert[]> => {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.status) {
+        conditions.push('status = ?');
+        params.push(filters.status);
+    }
+    if (filters.severity) {
+        conditions.push('severity = ?');
+        params.push(filters.severity);
+    }
+    if (filters.ruleId !== undefined) {
+        conditions.push('rule_id = ?');
+        params.push(filters.ruleId);
+    }
+    if (beforeId !== undefined) {
+        conditions.push('id < ?');
+        params.push(beforeId);
+    }
+
+    const rows = await db.all(
+        `SELECT * FROM alerts ${conditions.length ? 'WHERE ' + conditions.join(' AND ') : ''} ORDER BY id DESC LIMIT ?`,
+        [...params, limit]
+    );
+    return rows.map(toAlert);
+};
+
+/**
+ * Change the status of an alert
+ */
+export const updateAlertStatus = async (id: number, status: AlertStatus): Promise<Alert | null> => {
+    const { changes } = await db.run(
+        'UPDATE alerts SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [status, id]
+    );
+    return changes > 0 ? findAlertById(id) : null;
+};
+
+/**
+ * Get the ID of the newest alert, or 0 if there are none
+ */
+export const findLastAlertId = async (): Promise<number> => {
+    const row = await db.get<{ id: number | null }>('SELECT MAX(id) AS id FROM alerts');
+    return row?.id ?? 0;
+};
+
+/**
+ * Count alerts up to an ID per business and severity. An alert counts for both parties of its transaction.
+ */
+export const countAlertsByBusiness = async (upToId: number): Promise<
+    { business_id: string; severity: AlertSeverity; count: number }[]
+> => {
+    return db.all(
+        `SELECT business_id, severity, COUNT(*) AS count FROM (
+             SELECT json_extract(payload, '$.from') AS business_id, severity FROM alerts WHERE id <= ?
+             UNION ALL
+             SELECT json_extract(payload, '$.to') AS business_id, severity FROM alerts WHERE id <= ?
+         )
+         GROUP BY business_id, severity`,
+        [upToId, upToId]
+    );
+};
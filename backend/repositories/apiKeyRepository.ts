@@ -0,0 +1,72 @@
+import * as db from '../database';
+import { ApiKey, ApiKeyRole } from '../types';
+
+const COLUMNS = 'id, name, role, prefix, created_at, last_used_at, revoked_at';
+
+// last_used_at is only rewritten when it is older than this, so every request doesn't cost a write
+const LAST_USED_RESOLUTION = '-1 minute';
+
+/**
+ * Find all API keys, including revoked ones, oldest first
+ */
+export const findAll = async (): Promise<ApiKey[]> => {
+    return db.all<ApiKey>(`SELECT ${COLUMNS} FROM api_keys ORDER BY id`);
+};
+
+/**
+ * Find an API key by ID
+ */
+export const findById = async (id: number): Promise<ApiKey | null> => {
+    const row = await db.get<ApiKey>(`SELECT ${COLUMNS} FROM api_keys WHERE id = ?`, [id]);
+    return row ?? null;
+};
+
+/**
+ * Find the unrevoked API key with the given hash
+ */
+export const findActiveByHash = async (keyHash: string): Promise<ApiKey | null> => {
+    const row = await db.get<ApiKey>(
+        `SELECT ${COLUMNS} FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL`,
+        [keyHash]
+    );
+    return row ?? null;
+};
+
+/**
+ * Store a new API key by its hash
+ */
+export const insert = async (key: {
+    name: string;
+    role: ApiKeyRole;
+    prefix: string;
+    keyHash: string;
+}): Promise<ApiKey> => {
+    const { lastID } = await db.run(
+        'INSERT INTO api_keys (name, role, prefix, key_hash) VALUES (?, ?, ?, ?)',
+        [key.name, key.role, key.prefix, key.keyHash]
+    );
+    return (await findById(lastID)) as ApiKey;
+};
+
+/**
+ * Revoke an API key. Revoking a key twice keeps the first revocation time.
+ * @returns The key, or null if it doesn't exist
+ */
+export const revoke = async (id: number): Promise<ApiKey | null> => {
+    await db.run(
+        'UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL',
+        [id]
+    );
+    return findById(id);
+};
+
+/**
+ * Record that an API key was used
+ */
+export const touch = async (id: number): Promise<void> => {
+    await db.run(
+        `UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP
+         WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', ?))`,
+        [id, LAST_USED_RESOLUTION]
+    );
+};
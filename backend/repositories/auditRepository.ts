@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import * as db from '../database';
+import { AuditEntry, AuditListQuery, NewAuditEntry } from '../types';
+
+// prev_hash of the first entry
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Hash an entry's fields together with the previous entry's hash
+ */
+export const hashEntry = (entry: NewAuditEntry, prevHash: string): string =>
+    crypto
+        .createHash('sha256')
+        .update(prevHash)
+        .update(JSON.stringify([
+            entry.created_at,
+            entry.actor,
+            entry.actor_key_id,
+            entry.role,
+            entry.ip,
+            entry.method,
+            entry.path,
+            entry.status_code,
+            entry.outcome,
+            entry.payload_digest
+        ]))
+        .digest('hex');
+
+/**
+ * Append an entry to the audit log, chained to the last one
+ */
+export const append = async (entry: NewAuditEntry): Promise<AuditEntry> => {
+    return db.transaction(async (tx) => {
+        const last = await tx.get<{ hash: string }>('SELECT hash FROM audit_log ORDER BY id DESC LIMIT 1');
+        const prevHash = last?.hash ?? GENESIS_HASH;
+        const hash = hashEntry(entry, prevHash);
+
+        const { lastID } = await tx.run(
+            `INSERT INTO audit_log
+                 (created_at, actor, actor_key_id, role, ip, method, path, status_code, outcome, payload_digest, prev_hash, hash)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                entry.created_at,
+                entry.actor,
+                entry.actor_key_id,
+                entry.role,
+                entry.ip,
+                entry.method,
+                entry.path,
+                entry.status_code,
+                entry.outcome,
+                entry.payload_digest,
+                prevHash,
+                hash
+            ]
+        );
+        return { ...entry, id: lastID, prev_hash: prevHash, hash };
+    });
+};
+
+/**
+ * Find audit entries newest first, starting before the entry with the given ID
+ */
+export const findEntries = async (
+    filters: Omit<AuditListQuery, 'limit' | 'cursor'>,
+    beforeId: number | undefined,
+    limit: number
+): Promise<AuditEntry[]> => {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.actor) {
+        conditions.push('actor = ?');
+        params.push(filters.actor);
+    }
+    if (filters.method) {
+        conditions.push('method = ?');
+        params.push(filters.method);
+    }
+    if (filters.path) {
+        conditions.push('substr(path, 1, ?) = ?');
+        params.push(filters.path.length, filters.path);
+    }
+    if (filters.outcome) {
+        conditions.push('outcome = ?');
+        params.push(filters.outcome);
+    }
+    if (filters.startDate) {
+        conditions.push('created_at >= ?');
+        params.push(filters.startDate);
+    }
+    if (filters.endDate) {
+        conditions.push('created_at <= ?');
+        params.push(filters.endDate);
+    }
+    if (beforeId !== undefined) {
+        conditions.push('id < ?');
+        params.push(beforeId);
+    }
+
+    return db.all<AuditEntry>(
+        `SELECT * FROM audit_log ${conditions.length ? 'WHERE ' + conditions.join(' AND ') : ''} ORDER BY id DESC LIMIT ?`,
+        [...params, limit]
+    );
+};
+
+/**
+ * Find audit entries oldest first, starting after the entry with the given ID
+ */
+export const findEntriesAfter = async (afterId: number, limit: number): Promise<AuditEntry[]> => {
+    return db.all<AuditEntry>('SELECT * FROM audit_log WHERE id > ? ORDER BY id LIMIT ?', [afterId, limit]);
+};
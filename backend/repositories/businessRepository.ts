@@ -1,55 +1,132 @@
-import sqlite3 from 'sqlite3';
-import path from 'path';
-import { Business } from '../types';
-
-const dbPath = process.env.DATABASE_PATH || path.resolve(__dirname, '../../database/sayari.db');
+import * as db from '../database';
+import { Business, BusinessRow } from '../types';
+import { insertEvent } from './outboxRepository';
 
 /**
  * Find all businesses
  */
 export const findAllBusinesses = async (): Promise<Business[]> => {
-    return new Promise((resolve, reject) => {
-        const db = new sqlite3.Database(dbPath, sqlite3.OPEN_READWRITE);
-        db.all('SELECT * FROM businesses', (err, rows) => {
-            db.close();
-            if (err) reject(err);
-            else resolve(rows as Business[]);
-        });
-    });
+    return db.all<Business>('SELECT * FROM businesses');
+};
+
+/**
+ * Count all businesses
+ */
+export const countBusinesses = async (): Promise<number> => {
+    const row = await db.get<{ count: number }>('SELECT COUNT(*) AS count FROM businesses');
+    return row?.count ?? 0;
 };
 
 /**
  * Find a business by ID
  */
 export const findBusinessById = async (businessId: string): Promise<Business | null> => {
-    return new Promise((resolve, reject) => {
-        const db = new sqlite3.Database(dbPath, sqlite3.OPEN_READWRITE);
-        db.get('SELECT * FROM businesses WHERE business_id = ?', [businessId], (err, row) => {
-            db.close();
-            if (err) reject(err);
-            else resolve(row as Business | null);
-        });
-    });
+    const row = await db.get<Business>('SELECT * FROM businesses WHERE business_id = ?', [businessId]);
+    return row ?? null;
 };
 
 /**
- * Create a new business
+ * Find the IDs of all businesses in an industry (case-insensitive)
  */
-export const createBusiness = async (businessId: string, name: string, industry: string): Promise<{ id: number }> => {
-    return new Promise((resolve, reject) => {
-        const db = new sqlite3.Database(dbPath, sqlite3.OPEN_READWRITE);
-        db.run(
+export const findBusinessIdsByIndustry = async (industry: string): Promise<string[]> => {
+    const rows = await db.all<Pick<Business, 'business_id'>>(
+        'SELECT business_id FROM businesses WHERE industry = ? COLLATE NOCASE',
+        [industry]
+    );
+    return rows.map(row => row.business_id);
+};
+
+/**
+ * Create a new business and enqueue its Memgraph node in the same SQLite transaction
+ */
+export const createBusiness = async (
+    businessId: string,
+    name: string,
+    industry: string
+): Promise<{ id: number; outboxEventId: number }> => {
+    return db.transaction(async (tx) => {
+        const { lastID } = await tx.run(
             'INSERT INTO businesses (business_id, name, industry) VALUES (?, ?, ?)',
-            [businessId, name, industry],
-            function(err) {
-                db.close();
-                if (err) reject(err);
-                else resolve({ id: this.lastID });
-            }
+            [businessId, name, industry]
         );
+        const event = await insertEvent(tx, 'upsert_business', { business_id: businessId });
+        return { id: lastID, outboxEventId: event.id };
     });
 };
 
+/**
+ * Insert a business row alone, for a business whose Memgraph node already exists
+ */
+export const insertBusiness = async (
+    businessId: string,
+    name: string,
+    industry: string
+): Promise<{ id: number }> => {
+    const { lastID } = await db.run(
+        'INSERT INTO businesses (business_id, name, industry) VALUES (?, ?, ?)',
+        [businessId, name, industry]
+    );
+    return { id: lastID };
+};
+
+/**
+ * Update the name and/or industry of a business
+ */
+export const updateBusiness = async (
+    businessId: string,
+    fields: { name?: string; industry?: string }
+): Promise<{ changes: number }> => {
+    const assignments: string[] = [];
+    const params: string[] = [];
+
+    if (fields.name !== undefined) {
+        assignments.push('name = ?');
+        params.push(fields.name);
+    }
+    if (fields.industry !== undefined) {
+        assignments.push('industry = ?');
+        params.push(fields.industry);
+    }
+    if (assignments.length === 0) {
+        return { changes: 0 };
+    }
+
+    const { changes } = await db.run(
+        `UPDATE businesses SET ${assignments.join(', ')} WHERE business_id = ?`,
+        [...params, businessId]
+    );
+    return { changes };
+};
+
+/**
+ * Delete a business by ID and enqueue removal of its Memgraph node in the same SQLite transaction.
+ * The event carries the deleted row, so it can be restored if the graph refuses the delete.
+ */
+export const deleteBusiness = async (
+    businessId: string,
+    cascade: boolean
+): Promise<{ changes: number; outboxEventId?: number }> => {
+    return db.transaction(async (tx) => {
+        const business = await tx.get<BusinessRow>('SELECT * FROM businesses WHERE business_id = ?', [businessId]);
+        if (!business) {
+            return { changes: 0 };
+        }
+        const { changes } = await tx.run('DELETE FROM businesses WHERE business_id = ?', [businessId]);
+        const event = await insertEvent(tx, 'delete_business', { business_id: businessId, cascade, business });
+        return { changes, outboxEventId: event.id };
+    });
+};
+
+/**
+ * Put back a deleted business row, unless a business with its ID has been created since
+ */
+export const restoreBusiness = async (business: BusinessRow): Promise<void> => {
+    await db.run(
+        'INSERT OR IGNORE INTO businesses (id, business_id, name, industry, created_at) VALUES (?, ?, ?, ?, ?)',
+        [business.id, business.business_id, business.name, business.industry, business.created_at]
+    );
+};
+
 /**
  * Get business details for multiple IDs
  */
@@ -63,24 +140,15 @@ export const getBusinessDetails = async (businessIds: string[]): Promise<{
 
     const placeholders = businessIds.map(() => '?').join(',');
     const sql = `SELECT business_id, name, industry FROM businesses WHERE business_id IN (${placeholders})`;
-    
-    return new Promise((resolve, reject) => {
-        const db = new sqlite3.Database(dbPath, sqlite3.OPEN_READWRITE);
-        db.all(sql, businessIds, (err, rows: any[]) => {
-            db.close();
-            if (err) {
-                reject(err);
-            } else {
-                const nameMap: Record<string, string> = {};
-                const industryMap: Record<string, string> = {};
-                
-                rows.forEach(row => {
-                    nameMap[row.business_id] = row.name;
-                    industryMap[row.business_id] = row.industry;
-                });
-                
-                resolve({ nameMap, industryMap });
-            }
-        });
+    const rows = await db.all<Business>(sql, businessIds);
+
+    const nameMap: Record<string, string> = {};
+    const industryMap: Record<string, string> = {};
+
+    rows.forEach(row => {
+        nameMap[row.business_id] = row.name;
+        industryMap[row.business_id] = row.industry;
     });
-};
\ No newline at end of file
+
+    return { nameMap, industryMap };
+};
@@ -1,9 +1,34 @@
-import neo4j, { Driver, Session } from 'neo4j-driver';
-import { Transaction, GraphEdge, GraphNode } from '../types';
+import neo4j, { Driver, Session, Record as Neo4jRecord } from 'neo4j-driver';
+import {
+    Transaction,
+    GraphEdge,
+    GraphNode,
+    PageRequest,
+    EdgeFilters,
+    PathConstraints,
+    PathDirection
+} from '../types';
 
 // Initialize driver once
 const MEMGRAPH_URL = process.env.MEMGRAPH_URL || 'bolt://localhost:7687';
 const driver: Driver = neo4j.driver(MEMGRAPH_URL, neo4j.auth.basic('', ''));
+const STREAM_FETCH_SIZE = 1000;
+
+/**
+ * Map a record returning id/from/to/amount/timestamp columns to a Transaction
+ */
+const toTransaction = (record: Neo4jRecord): Transaction => ({
+    id: record.get('id'),
+    from: record.get('from'),
+    to: record.get('to'),
+    amount: record.get('amount'),
+    timestamp: record.get('timestamp')
+});
+
+/**
+ * Convert a value that may be a Neo4j integer to a JS number
+ */
+const toNumber = (value: any): number => (neo4j.isInt(value) ? value.toNumber() : Number(value));
 
 /**
  * Create or find a node in the graph
@@ -25,26 +50,71 @@ export const createOrFindNode = async (businessId: string): Promise<any> => {
 };
 
 /**
- * Create a new edge (transaction) in the graph
+ * Delete a node from the graph. A node with transaction edges is only deleted, together with
+ * its edges, when cascade is set; the check and the delete are one write, so an edge created
+ * concurrently either conflicts or is counted.
+ * @returns Whether the node is gone, and its number of transaction edges
+ */
+export const deleteNode = async (
+    businessId: string,
+    cascade: boolean
+): Promise<{ deleted: boolean; transactionCount: number }> => {
+    const session: Session = driver.session();
+    try {
+        const result = await session.run(
+            `
+            MATCH (b:Business {business_id: $business_id})
+            OPTIONAL MATCH (b)-[t:TRANSACTION]-()
+            WITH b, count(DISTINCT t) AS transactionCount
+            WITH b, transactionCount, $cascade OR transactionCount = 0 AS deleted
+            FOREACH (_ IN CASE WHEN deleted THEN [1] ELSE [] END | DETACH DELETE b)
+            RETURN deleted, transactionCount
+            `,
+            { business_id: businessId, cascade }
+        );
+
+        if (!result.records.length) {
+            return { deleted: true, transactionCount: 0 };
+        }
+        return {
+            deleted: result.records[0].get('deleted'),
+            transactionCount: result.records[0].get('transactionCount').toInt()
+        };
+    } finally {
+        await session.close();
+    }
+};
+
+/**
+ * Create a new edge (transaction) in the graph.
+ * The edge is merged on its id, so replaying a write with the same id never creates a duplicate.
  */
-export const createEdge = async (from: string, to: string, amount: number, timestamp: string): Promise<Transaction> => {
+export const createEdge = async (
+    id: string,
+    from: string,
+    to: string,
+    amount: number,
+    timestamp: string,
+    idempotencyKey?: string
+): Promise<Transaction | null> => {
     const session: Session = driver.session();
     try {
         const result = await session.run(
             `
             MATCH (a:Business {business_id: $from}), (b:Business {business_id: $to})
-            CREATE (a)-[t:TRANSACTION {amount: $amount, timestamp: $timestamp}]->(b)
-            RETURN t
+            MERGE (a)-[t:TRANSACTION {id: $id}]->(b)
+            ON CREATE SET t.amount = $amount, t.timestamp = $timestamp, t.idempotency_key = $idempotencyKey
+            RETURN t.id AS id, a.business_id AS from, b.business_id AS to, t.amount AS amount, t.timestamp AS timestamp
             `,
-            { from, to, amount, timestamp }
+            { id, from, to, amount, timestamp, idempotencyKey: idempotencyKey ?? null }
         );
         
         if (result.records.length === 0) {
             console.error(`Transaction creation failed: Could not find businesses with IDs ${from} and/or ${to}`);
-            return null as any;
+            return null;
         }
         
-        return result.records[0].get('t');
+        return toTransaction(result.records[0]);
     } catch (error) {
         console.error('Error creating transaction:', (error as Error).message);
         throw error;
@@ -54,37 +124,225 @@ export const createEdge = async (from: string, to: string, amount: number, times
 };
 
 /**
- * Find all edges, optionally filtered by source/target nodes
+ * Create many edges in one Memgraph transaction. Edges are merged on their id like createEdge,
+ * so a batch can be replayed safely after a crash. A row whose id is already used by a
+ * transaction between other businesses is not written.
+ * @returns The rows whose businesses exist in the graph, and whether their id was taken;
+ * rows whose businesses are missing from the graph are left out
  */
-export const findAllEdges = async (from?: string, to?: string): Promise<Transaction[]> => {
+export const createEdgesBatch = async (
+    transactions: Transaction[]
+): Promise<{ id: string; conflict: boolean }[]> => {
     const session: Session = driver.session();
-    const filters: string[] = [];
+    try {
+        const result = await session.executeWrite(tx =>
+            tx.run(
+                `
+                UNWIND $rows AS row
+                MATCH (a:Business {business_id: row.from}), (b:Business {business_id: row.to})
+                OPTIONAL MATCH (x)-[other:TRANSACTION {id: row.id}]->(y)
+                WITH row, a, b, count(CASE WHEN x <> a OR y <> b THEN other END) > 0 AS conflict
+                FOREACH (_ IN CASE WHEN conflict THEN [] ELSE [1] END |
+                    MERGE (a)-[t:TRANSACTION {id: row.id}]->(b)
+                    ON CREATE SET t.amount = row.amount, t.timestamp = row.timestamp
+                )
+                RETURN row.id AS id, conflict
+                `,
+                { rows: transactions }
+            )
+        );
+        return result.records.map(record => ({ id: record.get('id'), conflict: record.get('conflict') }));
+    } finally {
+        await session.close();
+    }
+};
+
+/**
+ * Build the WHERE conditions and parameters shared by the transaction list queries
+ */
+const buildEdgeConditions = (filters: EdgeFilters): { conditions: string[]; params: Record<string, any> } => {
+    const conditions: string[] = [];
     const params: Record<string, any> = {};
 
-    // Add filters dynamically based on parameters
-    if (from) {
-        filters.push('a.business_id = $from');
-        params.from = from;
+    // Optional filters based on query parameters
+    if (filters.from) {
+        conditions.push('a.business_id = $from');
+        params.from = filters.from;
+    }
+    if (filters.to) {
+        conditions.push('b.business_id = $to');
+        params.to = filters.to;
+    }
+    if (filters.business && filters.counterparty) {
+        conditions.push(
+            '((a.business_id = $business AND b.business_id = $counterparty) OR (a.business_id = $counterparty AND b.business_id = $business))'
+        );
+        params.business = filters.business;
+        params.counterparty = filters.counterparty;
+    } else if (filters.business) {
+        conditions.push('(a.business_id = $business OR b.business_id = $business)');
+        params.business = filters.business;
+    }
+    if (filters.businessIds) {
+        conditions.push('(a.business_id IN $businessIds OR b.business_id IN $businessIds)');
+        params.businessIds = filters.businessIds;
+    }
+    if (filters.startDate) {
+        conditions.push('t.timestamp >= $startDate');
+        params.startDate = filters.startDate;
+    }
+    if (filters.endDate) {
+        conditions.push('t.timestamp <= $endDate');
+        params.endDate = filters.endDate;
+    }
+    if (filters.minAmount !== undefined) {
+        conditions.push('t.amount >= $minAmount');
+        params.minAmount = filters.minAmount;
+    }
+    if (filters.maxAmount !== undefined) {
+        conditions.push('t.amount <= $maxAmount');
+        params.maxAmount = filters.maxAmount;
+    }
+
+    return { conditions, params };
+};
+
+/**
+ * Find one page of edges matching the filters, ordered by the sort field and then by id.
+ * Keyset pagination: the page starts strictly after the cursor position, so deep pages cost the same as the first.
+ */
+export const findEdgesPage = async (
+    filters: EdgeFilters,
+    page: Pick<PageRequest, 'limit' | 'sort' | 'order' | 'after'>
+): Promise<Transaction[]> => {
+    const session: Session = driver.session();
+    const { conditions, params } = buildEdgeConditions(filters);
+    // sort and order come from a fixed set of values, so they are safe to inline
+    const field = `t.${page.sort}`;
+    const direction = page.order === 'asc' ? 'ASC' : 'DESC';
+    const comparator = page.order === 'asc' ? '>' : '<';
+
+    if (page.after) {
+        conditions.push(
+            `(${field} ${comparator} $afterValue OR (${field} = $afterValue AND t.id ${comparator} $afterId))`
+        );
+        params.afterValue = page.after.value;
+        params.afterId = page.after.id;
+    }
+    params.limit = neo4j.int(page.limit);
+
+    const query = `
+        MATCH (a:Business)-[t:TRANSACTION]->(b:Business)
+        ${conditions.length ? 'WHERE ' + conditions.join(' AND ') : ''}
+        RETURN t.id AS id, a.business_id AS from, b.business_id AS to, t.amount AS amount, t.timestamp AS timestamp
+        ORDER BY ${field} ${direction}, t.id ${direction}
+        LIMIT $limit
+    `;
+
+    try {
+        const result = await session.run(query, params);
+        return result.records.map(toTransaction);
+    } finally {
+        await session.close();
+    }
+};
+
+/**
+ * Stream the edges matching the filters, newest first. Records are pulled from Memgraph
+ * in batches as the consumer iterates, so the full result is never held in memory.
+ */
+export async function* streamEdges(filters: EdgeFilters): AsyncGenerator<Transaction> {
+    const session: Session = driver.session({ fetchSize: STREAM_FETCH_SIZE });
+    const { conditions, params } = buildEdgeConditions(filters);
+
+    const query = `
+        MATCH (a:Business)-[t:TRANSACTION]->(b:Business)
+        ${conditions.length ? 'WHERE ' + conditions.join(' AND ') : ''}
+        RETURN t.id AS id, a.business_id AS from, b.business_id AS to, t.amount AS amount, t.timestamp AS timestamp
+        ORDER BY t.timestamp DESC, t.id DESC
+    `;
+
+    try {
+        for await (const record of session.run(query, params)) {
+            yield toTransaction(record);
+        }
+    } finally {
+        // Also runs when the consumer stops early, e.g. because the client disconnected
+        await session.close();
+    }
+}
+
+/**
+ * Count the edges matching the filters
+ */
+export const countEdges = async (filters: EdgeFilters): Promise<number> => {
+    const session: Session = driver.session();
+    const { conditions, params } = buildEdgeConditions(filters);
+
+    const query = `
+        MATCH (a:Business)-[t:TRANSACTION]->(b:Business)
+        ${conditions.length ? 'WHERE ' + conditions.join(' AND ') : ''}
+        RETURN count(t) AS total
+    `;
+
+    try {
+        const result = await session.run(query, params);
+        return result.records[0].get('total').toInt();
+    } finally {
+        await session.close();
     }
-    if (to) {
-        filters.push('b.business_id = $to');
-        params.to = to;
+};
+
+/**
+ * Count and total the amount of the edges matching the filters
+ */
+export const summarizeEdges = async (filters: EdgeFilters): Promise<{ count: number; total: number }> => {
+    const session: Session = driver.session();
+    const { conditions, params } = buildEdgeConditions(filters);
+
+    const query = `
+        MATCH (a:Business)-[t:TRANSACTION]->(b:Business)
+        ${conditions.length ? 'WHERE ' + conditions.join(' AND ') : ''}
+        RETURN count(t) AS count, coalesce(sum(t.amount), 0) AS total
+    `;
+
+    try {
+        const result = await session.run(query, params);
+        const record = result.records[0];
+        return { count: toNumber(record.get('count')), total: toNumber(record.get('total')) };
+    } finally {
+        await session.close();
     }
+};
+
+/**
+ * Aggregate the edges matching the filters into hourly or daily buckets.
+ * Timestamps are UTC ISO 8601 strings, so a bucket is a prefix of the timestamp.
+ */
+export const aggregateEdgeVolume = async (
+    filters: EdgeFilters,
+    granularity: 'hour' | 'day'
+): Promise<{ bucket: string; count: number; sum: number; min: number; max: number }[]> => {
+    const session: Session = driver.session();
+    const { conditions, params } = buildEdgeConditions(filters);
+    params.prefixLength = neo4j.int(granularity === 'hour' ? 13 : 10);
 
     const query = `
         MATCH (a:Business)-[t:TRANSACTION]->(b:Business)
-        ${filters.length ? 'WHERE ' + filters.join(' AND ') : ''}
-        RETURN a.business_id AS from, b.business_id AS to, t.amount AS amount, t.timestamp AS timestamp
-        ORDER BY t.timestamp DESC
+        ${conditions.length ? 'WHERE ' + conditions.join(' AND ') : ''}
+        WITH substring(t.timestamp, 0, $prefixLength) AS bucket, t.amount AS amount
+        RETURN bucket, count(*) AS count, sum(amount) AS sum, min(amount) AS min, max(amount) AS max
+        ORDER BY bucket
     `;
 
     try {
         const result = await session.run(query, params);
         return result.records.map(record => ({
-            from: record.get('from'),
-            to: record.get('to'),
-            amount: record.get('amount'),
-            timestamp: record.get('timestamp')
+            bucket: record.get('bucket'),
+            count: toNumber(record.get('count')),
+            sum: toNumber(record.get('sum')),
+            min: toNumber(record.get('min')),
+            max: toNumber(record.get('max'))
         }));
     } finally {
         await session.close();
@@ -119,22 +377,32 @@ export const getAllNodes = async (): Promise<GraphNode[]> => {
  * Get all edges (visual representation of transactions) from the graph
  */
 export const getAllEdges = async (): Promise<GraphEdge[]> => {
+    return findAggregatedEdges({});
+};
+
+/**
+ * Aggregate the edges matching the filters into one edge per (source, target) pair
+ */
+export const findAggregatedEdges = async (filters: EdgeFilters): Promise<GraphEdge[]> => {
     const session: Session = driver.session();
+    const { conditions, params } = buildEdgeConditions(filters);
     try {
         const result = await session.run(
             `
-            MATCH (source:Business)-[t:TRANSACTION]->(target:Business)
+            MATCH (a:Business)-[t:TRANSACTION]->(b:Business)
+            ${conditions.length ? 'WHERE ' + conditions.join(' AND ') : ''}
             RETURN 
-                source.business_id AS source, 
-                target.business_id AS target, 
+                a.business_id AS source, 
+                b.business_id AS target, 
                 count(t) AS transactionCount, 
                 sum(t.amount) AS transactionAmount
-            `
+            ORDER BY source, target
+            `,
+            params
         );
 
-        // Format the output with auto-incrementing IDs
-        return result.records.map((record, index) => ({
-            id: index + 1, // Auto-incrementing ID starting from 1
+        return result.records.map(record => ({
+            id: `${record.get('source')}->${record.get('target')}`,
             source: record.get('source'),
             target: record.get('target'),
             transactionCount: record.get('transactionCount') ? parseInt(record.get('transactionCount'), 10) : 0,
@@ -149,62 +417,137 @@ export const getAllEdges = async (): Promise<GraphEdge[]> => {
 };
 
 /**
- * Find filtered edges by various criteria using database-level filtering
+ * Build a filter lambda body applying the path constraints to the expanded edge e
  */
-export const findFilteredEdges = async (
-    from?: string,
-    to?: string,
-    startDate?: string,
-    endDate?: string,
-    minAmount?: string,
-    maxAmount?: string
-): Promise<Transaction[]> => {
-    const session: Session = driver.session();
-    const filters: string[] = [];
+const buildPathLambda = (constraints: PathConstraints): { lambda: string; params: Record<string, any> } => {
+    const conditions: string[] = [];
     const params: Record<string, any> = {};
 
-    // Optional filters based on query parameters
-    if (from) {
-        filters.push('a.business_id = $from');
-        params.from = from;
+    if (constraints.startDate) {
+        conditions.push('e.timestamp >= $startDate');
+        params.startDate = constraints.startDate;
     }
-    if (to) {
-        filters.push('b.business_id = $to');
-        params.to = to;
+    if (constraints.endDate) {
+        conditions.push('e.timestamp <= $endDate');
+        params.endDate = constraints.endDate;
     }
-    if (startDate) {
-        filters.push('t.timestamp >= $startDate');
-        params.startDate = startDate;
+    if (constraints.minAmount !== undefined) {
+        conditions.push('e.amount >= $minAmount');
+        params.minAmount = constraints.minAmount;
     }
-    if (endDate) {
-        filters.push('t.timestamp <= $endDate');
-        params.endDate = endDate;
+
+    return { lambda: conditions.length ? conditions.join(' AND ') : 'true', params };
+};
+
+/**
+ * Wrap a relationship pattern in arrows for the traversal direction
+ */
+const directed = (relationship: string, direction: PathDirection): string => {
+    switch (direction) {
+        case 'outgoing':
+            return `-${relationship}->`;
+        case 'incoming':
+            return `<-${relationship}-`;
+        case 'any':
+            return `-${relationship}-`;
     }
-    if (minAmount) {
-        filters.push('t.amount >= $minAmount');
-        params.minAmount = parseFloat(minAmount);
+};
+
+/**
+ * Length of the shortest path between two businesses, using Memgraph's breadth-first expansion
+ * @returns Number of hops, or null if the businesses are not connected within maxHops
+ */
+export const findShortestPathLength = async (
+    from: string,
+    to: string,
+    maxHops: number,
+    direction: PathDirection,
+    constraints: PathConstraints
+): Promise<number | null> => {
+    const session: Session = driver.session();
+    const { lambda, params } = buildPathLambda(constraints);
+
+    // maxHops is a validated integer; Memgraph doesn't accept a parameter as the expansion bound
+    const query = `
+        MATCH p = (a:Business {business_id: $from})${directed(`[:TRANSACTION *BFS ..${maxHops} (e, n | ${lambda})]`, direction)}(b:Business {business_id: $to})
+        RETURN size(relationships(p)) AS hops
+        LIMIT 1
+    `;
+
+    try {
+        const result = await session.run(query, { ...params, from, to });
+        return result.records.length ? toNumber(result.records[0].get('hops')) : null;
+    } finally {
+        await session.close();
     }
-    if (maxAmount) {
-        filters.push('t.amount <= $maxAmount');
-        params.maxAmount = parseFloat(maxAmount);
+};
+
+/**
+ * Find the businesses one hop away from a set of businesses, over transactions satisfying the constraints.
+ * Parallel transactions between two businesses make one pair.
+ * @returns Distinct pairs in traversal direction: from is one of the given businesses
+ */
+export const findNextHops = async (
+    businessIds: string[],
+    direction: PathDirection,
+    constraints: PathConstraints
+): Promise<{ from: string; to: string }[]> => {
+    const session: Session = driver.session();
+    const { lambda, params } = buildPathLambda(constraints);
+
+    const query = `
+        UNWIND $businessIds AS id
+        MATCH (a:Business {business_id: id})${directed('[e:TRANSACTION]', direction)}(b:Business)
+        WHERE ${lambda}
+        RETURN DISTINCT a.business_id AS from, b.business_id AS to
+    `;
+
+    try {
+        const result = await session.run(query, { ...params, businessIds });
+        return result.records.map(record => ({ from: record.get('from'), to: record.get('to') }));
+    } finally {
+        await session.close();
     }
+};
+
+/**
+ * Find the transactions satisfying the constraints for each hop of a set of paths
+ * @returns Per hop key ("from>to"), the matching transactions (most recent first, capped), their count and total
+ */
+export const findHopTransactions = async (
+    hops: { from: string; to: string }[],
+    direction: PathDirection,
+    constraints: PathConstraints,
+    maxTransactionsPerHop: number
+): Promise<Map<string, { count: number; total: number; transactions: Transaction[] }>> => {
+    const session: Session = driver.session();
+    const { lambda, params } = buildPathLambda(constraints);
 
-    // Build the query dynamically based on provided filters
     const query = `
-        MATCH (a:Business)-[t:TRANSACTION]->(b:Business)
-        ${filters.length ? 'WHERE ' + filters.join(' AND ') : ''}
-        RETURN a.business_id AS from, b.business_id AS to, t.amount AS amount, t.timestamp AS timestamp
-        ORDER BY t.timestamp DESC
+        UNWIND $hops AS hop
+        MATCH (a:Business {business_id: hop.from})${directed('[e:TRANSACTION]', direction)}(b:Business {business_id: hop.to})
+        WHERE ${lambda}
+        WITH hop, e, startNode(e).business_id AS from, endNode(e).business_id AS to
+        ORDER BY e.timestamp DESC
+        WITH hop, count(e) AS count, sum(e.amount) AS total,
+            collect({id: e.id, from: from, to: to, amount: e.amount, timestamp: e.timestamp}) AS transactions
+        RETURN hop.from AS hopFrom, hop.to AS hopTo, count, total, transactions[..$maxTransactions] AS transactions
     `;
 
     try {
-        const result = await session.run(query, params);
-        return result.records.map(record => ({
-            from: record.get('from'),
-            to: record.get('to'),
-            amount: record.get('amount'),
-            timestamp: record.get('timestamp')
-        }));
+        const result = await session.run(query, {
+            ...params,
+            hops,
+            maxTransactions: neo4j.int(maxTransactionsPerHop)
+        });
+        return new Map(result.records.map(record => [
+            `${record.get('hopFrom')}>${record.get('hopTo')}`,
+            {
+                count: toNumber(record.get('count')),
+                total: toNumber(record.get('total')),
+                transactions: record.get('transactions')
+            }
+        ]));
     } finally {
         await session.close();
     }
@@ -230,4 +573,11 @@ export const countEdgesByNode = async (businessId: string): Promise<number> => {
     } finally {
         await session.close();
     }
-};
\ No newline at end of file
+};
+
+/**
+ * Close the shared driver, e.g. before a standalone script exits
+ */
+export const closeDriver = async (): Promise<void> => {
+    await driver.close();
+};
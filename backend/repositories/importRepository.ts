@@ -0,0 +1,107 @@
+import * as db from '../database';
+import { ImportFormat, ImportJob, ImportRowError } from '../types';
+
+/**
+ * Create a running import job
+ */
+export const createJob = async (source: string, format: ImportFormat, checksum: string): Promise<ImportJob> => {
+    const { lastID } = await db.run(
+        'INSERT INTO import_jobs (source, format, checksum) VALUES (?, ?, ?)',
+        [source, format, checksum]
+    );
+    const job = await findJobById(lastID);
+    return job as ImportJob;
+};
+
+/**
+ * Find an import job by ID
+ */
+export const findJobById = async (id: number): Promise<ImportJob | null> => {
+    const row = await db.get<ImportJob>('SELECT * FROM import_jobs WHERE id = ?', [id]);
+    return row ?? null;
+};
+
+/**
+ * Find the most recent unfinished job for a file with the given checksum
+ */
+export const findResumableJob = async (checksum: string): Promise<ImportJob | null> => {
+    const row = await db.get<ImportJob>(
+        `SELECT * FROM import_jobs WHERE checksum = ? AND status != 'completed' ORDER BY id DESC LIMIT 1`,
+        [checksum]
+    );
+    return row ?? null;
+};
+
+/**
+ * Find the most recent import jobs, newest first
+ */
+export const findRecentJobs = async (limit: number): Promise<ImportJob[]> => {
+    return db.all<ImportJob>('SELECT * FROM import_jobs ORDER BY id DESC LIMIT ?', [limit]);
+};
+
+/**
+ * Record a committed batch: the row errors it produced and how far the job got.
+ * A row can have several errors but is counted as failed once.
+ * Both are written in one transaction so a resumed job never reports an error twice.
+ */
+export const recordProgress = async (
+    id: number,
+    lastLine: number,
+    imported: number,
+    errors: ImportRowError[]
+): Promise<void> => {
+    await db.transaction(async (tx) => {
+        for (const error of errors) {
+            await tx.run(
+                'INSERT INTO import_errors (job_id, line, field, message, raw) VALUES (?, ?, ?, ?, ?)',
+                [id, error.line, error.field, error.message, error.raw]
+            );
+        }
+        await tx.run(
+            `UPDATE import_jobs
+             SET last_line = ?, rows_imported = rows_imported + ?, rows_failed = rows_failed + ?, updated_at = CURRENT_TIMESTAMP
+             WHERE id = ?`,
+            [lastLine, imported, new Set(errors.map(error => error.line)).size, id]
+        );
+    });
+};
+
+/**
+ * Mark a job as running again before it is resumed
+ */
+export const markJobRunning = async (id: number): Promise<void> => {
+    await db.run(
+        `UPDATE import_jobs SET status = 'running', error = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+        [id]
+    );
+};
+
+/**
+ * Mark a job as completed
+ */
+export const markJobCompleted = async (id: number): Promise<void> => {
+    await db.run(
+        `UPDATE import_jobs SET status = 'completed', updated_at = CURRENT_TIMESTAMP, completed_at = CURRENT_TIMESTAMP WHERE id = ?`,
+        [id]
+    );
+};
+
+/**
+ * Mark a job as failed; it can be resumed by importing the same file again
+ */
+export const markJobFailed = async (id: number, error: string): Promise<void> => {
+    await db.run(
+        `UPDATE import_jobs SET status = 'failed', error = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+        [error, id]
+    );
+};
+
+/**
+ * Find the row errors of a job in file order, starting after the error with the given ID
+ */
+export const findErrors = async (jobId: number, afterId: number, limit: number): Promise<ImportRowError[]> => {
+    return db.all<ImportRowError>(
+        'SELECT id, line, field, message, raw FROM import_errors WHERE job_id = ? AND id > ? ORDER BY id LIMIT ?',
+        [jobId, afterId, limit]
+    );
+};
@@ -0,0 +1,139 @@
+import * as db from '../database';
+import { DatabaseClient } from '../database';
+import { OutboxEvent, OutboxOperation, OutboxPayloads, OutboxStatus } from '../types';
+
+const toOutboxEvent = (row: any): OutboxEvent => ({
+    ...row,
+    payload: JSON.parse(row.payload)
+});
+
+/**
+ * Insert an outbox event, optionally through an open transaction
+ * so callers can enqueue it atomically with their own writes
+ */
+export const insertEvent = async <Op extends OutboxOperation>(
+    client: DatabaseClient,
+    operation: Op,
+    payload: OutboxPayloads[Op],
+    idempotencyKey?: string
+): Promise<{ id: number }> => {
+    const { lastID } = await client.run(
+        `INSERT INTO graph_outbox (operation, payload, idempotency_key, status, attempts, available_at)
+         VALUES (?, ?, ?, 'pending', 0, ?)`,
+        [operation, JSON.stringify(payload), idempotencyKey ?? null, Date.now()]
+    );
+    return { id: lastID };
+};
+
+/**
+ * Enqueue a pending graph mutation
+ */
+export const enqueueEvent = async <Op extends OutboxOperation>(
+    operation: Op,
+    payload: OutboxPayloads[Op],
+    idempotencyKey?: string
+): Promise<{ id: number }> => {
+    return insertEvent(db, operation, payload, idempotencyKey);
+};
+
+/**
+ * Find an outbox event by ID
+ */
+export const findEventById = async (id: number): Promise<OutboxEvent | null> => {
+    const row = await db.get('SELECT * FROM graph_outbox WHERE id = ?', [id]);
+    return row ? toOutboxEvent(row) : null;
+};
+
+/**
+ * Find the outbox event that was enqueued with the given idempotency key
+ */
+export const findEventByIdempotencyKey = async (idempotencyKey: string): Promise<OutboxEvent | null> => {
+    const row = await db.get('SELECT * FROM graph_outbox WHERE idempotency_key = ?', [idempotencyKey]);
+    return row ? toOutboxEvent(row) : null;
+};
+
+/**
+ * Find pending events whose next attempt is due, and events whose claim has expired
+ * (e.g. the process stopped while applying them), oldest first
+ */
+export const findDueEvents = async (limit: number): Promise<OutboxEvent[]> => {
+    const rows = await db.all(
+        `SELECT * FROM graph_outbox WHERE status IN ('pending', 'processing') AND available_at <= ? ORDER BY id LIMIT ?`,
+        [Date.now(), limit]
+    );
+    return rows.map(toOutboxEvent);
+};
+
+/**
+ * Claim an event for processing, so no other dispatcher applies it at the same time or again afterwards.
+ * A pending event can be claimed, and so can one whose previous claim has expired.
+ * @param {number} claimMs - How long the claim holds before another dispatcher may take over
+ * @returns Whether this caller got the claim
+ */
+export const claimEvent = async (id: number, claimMs: number): Promise<boolean> => {
+    const now = Date.now();
+    const { changes } = await db.run(
+        `UPDATE graph_outbox SET status = 'processing', available_at = ?
+         WHERE id = ? AND (status = 'pending' OR (status = 'processing' AND available_at <= ?))`,
+        [now + claimMs, id, now]
+    );
+    return changes === 1;
+};
+
+/**
+ * Mark an event as successfully applied to Memgraph
+ */
+export const markEventDone = async (id: number): Promise<void> => {
+    await db.run(
+        `UPDATE graph_outbox SET status = 'done', processed_at = CURRENT_TIMESTAMP, last_error = NULL WHERE id = ?`,
+        [id]
+    );
+};
+
+/**
+ * Record a failed attempt, either rescheduling the event or giving up on it
+ */
+export const markEventFailed = async (
+    id: number,
+    attempts: number,
+    error: string,
+    status: OutboxStatus,
+    availableAt: number
+): Promise<void> => {
+    await db.run(
+        'UPDATE graph_outbox SET status = ?, attempts = ?, last_error = ?, available_at = ? WHERE id = ?',
+        [status, attempts, error, availableAt, id]
+    );
+};
+
+/**
+ * Count outbox events by status
+ */
+export const countEventsByStatus = async (): Promise<Record<OutboxStatus, number>> => {
+    const rows = await db.all<{ status: OutboxStatus; count: number }>(
+        'SELECT status, COUNT(*) AS count FROM graph_outbox GROUP BY status'
+    );
+    const counts: Record<OutboxStatus, number> = { pending: 0, processing: 0, done: 0, failed: 0 };
+    rows.forEach(row => {
+        counts[row.status] = row.count;
+    });
+    return counts;
+};
+
+/**
+ * Find events with the given status, oldest first
+ */
+export const findEventsByStatus = async (status: OutboxStatus, limit: number): Promise<OutboxEvent[]> => {
+    const rows = await db.all('SELECT * FROM graph_outbox WHERE status = ? ORDER BY id LIMIT ?', [status, limit]);
+    return rows.map(toOutboxEvent);
+};
+
+/**
+ * Put a failed event back in the queue with a fresh retry budget
+ */
+export const resetEvent = async (id: number): Promise<void> => {
+    await db.run(
+        `UPDATE graph_outbox SET status = 'pending', attempts = 0, available_at = ? WHERE id = ?`,
+        [Date.now(), id]
+    );
+};
@@ -0,0 +1,111 @@
+import express, { Request, Response } from "express";
+import * as alertService from "../services/alertService";
+import { validateBody, validateParams } from "../validation";
+import {
+  alertRuleParamsSchema,
+  createAlertRuleSchema,
+  requireAlertRuleUpdateField,
+  updateAlertRuleSchema,
+} from "../validation/schemas";
+import { AlertRuleParams, CreateAlertRuleDto, UpdateAlertRuleDto } from "../types";
+
+const router = express.Router();
+
+/**
+ * GET /api/alert-rules
+ * List all alert rules
+ */
+router.get("/", async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const rules = await alertService.getRules();
+    res.json({ success: true, data: rules });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+/**
+ * GET /api/alert-rules/:id
+ * Get a single alert rule
+ */
+router.get(
+  "/:id",
+  validateParams(alertRuleParamsSchema),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = res.locals.params as AlertRuleParams;
+      const rule = await alertService.getRule(id);
+      if (!rule) {
+        res.status(404).json({ success: false, error: "Alert rule not found" });
+        return;
+      }
+      res.json({ success: true, data: rule });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+/**
+ * POST /api/alert-rules
+ * Create an alert rule; it applies to transactions created from then on
+ */
+router.post(
+  "/",
+  validateBody(createAlertRuleSchema),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const rule = await alertService.createRule(res.locals.body as CreateAlertRuleDto);
+      res.status(201).json({ success: true, data: rule });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+/**
+ * PATCH /api/alert-rules/:id
+ * Update an alert rule's name, description, severity, enabled flag or definition
+ */
+router.patch(
+  "/:id",
+  validateParams(alertRuleParamsSchema),
+  validateBody(updateAlertRuleSchema, requireAlertRuleUpdateField),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = res.locals.params as AlertRuleParams;
+      const rule = await alertService.updateRule(id, res.locals.body as UpdateAlertRuleDto);
+      if (!rule) {
+        res.status(404).json({ success: false, error: "Alert rule not found" });
+        return;
+      }
+      res.json({ success: true, data: rule });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+/**
+ * DELETE /api/alert-rules/:id
+ * Delete an alert rule. Alerts it already raised are kept.
+ */
+router.delete(
+  "/:id",
+  validateParams(alertRuleParamsSchema),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = res.locals.params as AlertRuleParams;
+      const deleted = await alertService.deleteRule(id);
+      if (!deleted) {
+        res.status(404).json({ success: false, error: "Alert rule not found" });
+        return;
+      }
+      res.json({ success: true, data: { id } });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,56 @@
+import express, { Request, Response } from "express";
+import * as alertService from "../services/alertService";
+import { validateBody, validateParams, validateQuery } from "../validation";
+import {
+  alertListQuerySchema,
+  alertParamsSchema,
+  updateAlertSchema,
+} from "../validation/schemas";
+import { AlertListQuery, AlertParams, UpdateAlertDto } from "../types";
+
+const router = express.Router();
+
+/**
+ * GET /api/alerts
+ * Fetch a page of alerts, newest first, optionally by status, severity or rule
+ */
+router.get(
+  "/",
+  validateQuery(alertListQuerySchema),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const { items, ...pagination } = await alertService.getAlerts(
+        res.locals.query as AlertListQuery
+      );
+      res.json({ success: true, data: items, pagination });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+/**
+ * PATCH /api/alerts/:id
+ * Change the status of an alert
+ */
+router.patch(
+  "/:id",
+  validateParams(alertParamsSchema),
+  validateBody(updateAlertSchema),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = res.locals.params as AlertParams;
+      const { status } = res.locals.body as UpdateAlertDto;
+      const alert = await alertService.updateAlertStatus(id, status);
+      if (!alert) {
+        res.status(404).json({ success: false, error: "Alert not found" });
+        return;
+      }
+      res.json({ success: true, data: alert });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,27 @@
+import express, { Request, Response } from "express";
+import * as analyticsService from "../services/analyticsService";
+import { validateQuery } from "../validation";
+import { checkFilterRanges, volumeQuerySchema } from "../validation/schemas";
+import { VolumeQuery } from "../types";
+
+const router = express.Router();
+
+/**
+ * GET /api/analytics/volume
+ * Transaction count, sum, min, max and average per hour, day or week
+ */
+router.get(
+  "/volume",
+  validateQuery(volumeQuerySchema, checkFilterRanges),
+  async (_req: Request, res: Response): Promise<void> => {
+    const { interval, ...filters } = res.locals.query as VolumeQuery;
+    try {
+      const report = await analyticsService.getVolume(interval, filters);
+      res.json({ success: true, data: report });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+export default router;
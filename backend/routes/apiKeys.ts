@@ -0,0 +1,76 @@
+import express, { Request, Response } from "express";
+import { Server } from "socket.io";
+import * as authService from "../services/authService";
+import { disconnectApiKey } from "../services/notificationService";
+import { requireRole } from "../auth";
+import { validateBody, validateParams } from "../validation";
+import { apiKeyParamsSchema, createApiKeySchema } from "../validation/schemas";
+import { ApiKeyParams, CreateApiKeyDto } from "../types";
+
+const router = express.Router();
+
+/**
+ * GET /api/api-keys/me
+ * Get the name and role of the key making the request
+ */
+router.get("/me", (_req: Request, res: Response): void => {
+  res.json({ success: true, data: res.locals.principal });
+});
+
+// Everything else manages keys, which only admins may do
+router.use(requireRole("admin"));
+
+/**
+ * GET /api/api-keys
+ * List all API keys, including revoked ones. The keys themselves are never returned.
+ */
+router.get("/", async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const keys = await authService.getKeys();
+    res.json({ success: true, data: keys });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /api/api-keys
+ * Issue an API key with a role. The response is the only time the key is shown.
+ */
+router.post(
+  "/",
+  validateBody(createApiKeySchema),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const key = await authService.issueKey(res.locals.body as CreateApiKeyDto);
+      res.status(201).json({ success: true, data: key });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+/**
+ * DELETE /api/api-keys/:id
+ * Revoke an API key and disconnect the Socket.IO clients using it
+ */
+router.delete(
+  "/:id",
+  validateParams(apiKeyParamsSchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = res.locals.params as ApiKeyParams;
+      const key = await authService.revokeKey(id);
+      if (!key) {
+        res.status(404).json({ success: false, error: "API key not found" });
+        return;
+      }
+      disconnectApiKey(req.app.get("io") as Server | undefined, id);
+      res.json({ success: true, data: key });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+export default router;
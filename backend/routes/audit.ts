@@ -0,0 +1,45 @@
+import express, { Request, Response } from "express";
+import * as auditService from "../services/auditService";
+import { requireRole } from "../auth";
+import { validateQuery } from "../validation";
+import { auditListQuerySchema, checkFilterRanges } from "../validation/schemas";
+import { AuditListQuery } from "../types";
+
+const router = express.Router();
+
+// Who did what is for admins only
+router.use(requireRole("admin"));
+
+/**
+ * GET /api/audit
+ * Fetch a page of audit entries, newest first, optionally by actor, method, path prefix, outcome or time
+ */
+router.get(
+  "/",
+  validateQuery(auditListQuerySchema, checkFilterRanges),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const { items, ...pagination } = await auditService.getEntries(
+        res.locals.query as AuditListQuery
+      );
+      res.json({ success: true, data: items, pagination });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+/**
+ * GET /api/audit/verify
+ * Check the hash chain of the whole audit log for tampering
+ */
+router.get("/verify", async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const verification = await auditService.verifyChain();
+    res.json({ success: true, data: verification });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+export default router;
@@ -1,16 +1,39 @@
 import express, { Request, Response } from "express";
 import * as businessService from "../services/businessService";
 import * as transactionService from "../services/transactionService";
+import {
+  emitBusinessDeleted,
+  emitBusinessUpdated,
+} from "../services/notificationService";
+import { Server } from "socket.io";
+import { requireRole } from "../auth";
+import { validateBody, validateParams, validateQuery } from "../validation";
+import {
+  businessIdParamsSchema,
+  businessTransactionsQuerySchema,
+  checkCursor,
+  createBusinessSchema,
+  deleteBusinessQuerySchema,
+  requireBusinessUpdateField,
+  updateBusinessSchema,
+} from "../validation/schemas";
+import {
+  BusinessIdParams,
+  BusinessTransactionsQuery,
+  CreateBusinessDto,
+  DeleteBusinessQuery,
+  UpdateBusinessDto,
+} from "../types";
 
 const router = express.Router();
 
 /**
  * GET /api/businesses
- * Fetch all businesses
+ * Fetch all businesses with their risk scores
  */
 router.get("/", async (_req: Request, res: Response): Promise<void> => {
   try {
-    const businesses = await businessService.getAllBusinesses();
+    const businesses = await businessService.getAllBusinessesWithRisk();
     res.json({ success: true, data: businesses });
   } catch (error) {
     res
@@ -24,19 +47,21 @@ router.get("/", async (_req: Request, res: Response): Promise<void> => {
 
 /**
  * GET /api/businesses/transactions
- * Fetch transactions with optional filters and business names
+ * Fetch a page of transactions with optional filters and business names
  */
 router.get(
   "/transactions",
-  async (req: Request, res: Response): Promise<void> => {
+  validateQuery(businessTransactionsQuerySchema, checkCursor),
+  async (_req: Request, res: Response): Promise<void> => {
     try {
-      const { from, to } = req.query;
-      const enrichedTransactions =
+      const { from, to, ...pageQuery } = res.locals
+        .query as BusinessTransactionsQuery;
+      const { items, ...pagination } =
         await transactionService.getEnrichedTransactions(
-          from as string | undefined,
-          to as string | undefined
+          { from, to },
+          transactionService.resolvePageRequest(pageQuery)
         );
-      res.json({ success: true, data: enrichedTransactions });
+      res.json({ success: true, data: items, pagination });
     } catch (error) {
       res.status(500).json({ success: false, error: (error as Error).message });
     }
@@ -49,16 +74,10 @@ router.get(
  */
 router.get(
   "/:business_id/transaction-count",
-  async (req: Request, res: Response): Promise<void> => {
+  validateParams(businessIdParamsSchema),
+  async (_req: Request, res: Response): Promise<void> => {
     try {
-      const { business_id } = req.params;
-      if (!business_id) {
-        res
-          .status(400)
-          .json({ success: false, error: "Business ID is required" });
-        return;
-      }
-
+      const { business_id } = res.locals.params as BusinessIdParams;
       const result = await businessService.getBusinessTransactionCount(
         business_id
       );
@@ -73,39 +92,115 @@ router.get(
  * POST /api/businesses
  * Create a new business
  */
-router.post("/", async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { name, industry } = req.body;
-
-    // Basic validation
-    if (!name || !industry) {
-      res
-        .status(400)
-        .json({ success: false, error: "Name and industry are required" });
-      return;
+router.post(
+  "/",
+  validateBody(createBusinessSchema),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const dto = res.locals.body as CreateBusinessDto;
+      const result = await businessService.createBusiness(dto);
+
+      if (result.success) {
+        res
+          .status(201)
+          .json({
+            success: true,
+            data: { id: result.id, business_id: result.businessId },
+          });
+      } else {
+        res
+          .status(500)
+          .json({
+            success: false,
+            error: result.error || "Failed to create business",
+          });
+      }
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
     }
+  }
+);
+
+/**
+ * PATCH /api/businesses/:business_id
+ * Update the name and/or industry of a business
+ */
+router.patch(
+  "/:business_id",
+  validateParams(businessIdParamsSchema),
+  validateBody(updateBusinessSchema, requireBusinessUpdateField),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { business_id } = res.locals.params as BusinessIdParams;
+      const dto = res.locals.body as UpdateBusinessDto;
 
-    const result = await businessService.createBusiness({ name, industry });
+      const business = await businessService.updateBusiness(business_id, dto);
 
-    if (result.success) {
-      res
-        .status(201)
-        .json({
-          success: true,
-          data: { id: result.id, business_id: result.businessId },
-        });
-    } else {
-      res
-        .status(500)
-        .json({
+      if (!business) {
+        res.status(404).json({ success: false, error: "Business not found" });
+        return;
+      }
+
+      const io = req.app.get("io") as Server | undefined;
+      emitBusinessUpdated(io, business);
+
+      res.json({ success: true, data: business });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+/**
+ * DELETE /api/businesses/:business_id
+ * Delete a business. Businesses with transactions are refused with 409 unless ?cascade=true. Admins only.
+ * 202 with pending: true if Memgraph is unavailable; the deletion is then applied, or refused, later.
+ */
+router.delete(
+  "/:business_id",
+  requireRole("admin"),
+  validateParams(businessIdParamsSchema),
+  validateQuery(deleteBusinessQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { business_id } = res.locals.params as BusinessIdParams;
+      const { cascade = false } = res.locals.query as DeleteBusinessQuery;
+
+      const result = await businessService.deleteBusiness(business_id, {
+        cascade,
+      });
+
+      if (!result.success) {
+        const status =
+          result.reason === "not_found"
+            ? 404
+            : result.reason === "has_transactions"
+            ? 409
+            : 500;
+        res.status(status).json({
           success: false,
-          error: result.error || "Failed to create business",
+          error: result.error || "Failed to delete business",
         });
+        return;
+      }
+
+      const payload = {
+        business_id,
+        removedTransactions: result.removedTransactions || 0,
+      };
+      if (result.pending) {
+        res.status(202).json({ success: true, data: payload, pending: true });
+        return;
+      }
+      const io = req.app.get("io") as Server | undefined;
+      emitBusinessDeleted(io, payload);
+
+      res.json({ success: true, data: payload });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
     }
-  } catch (error) {
-    res.status(500).json({ success: false, error: (error as Error).message });
   }
-});
+);
 
 // Export the router and services for testing purposes
 export { router, businessService, transactionService };
@@ -0,0 +1,19 @@
+import express, { Request, Response } from "express";
+import * as communityService from "../services/communityService";
+
+const router = express.Router();
+
+/**
+ * GET /api/communities
+ * Group businesses into trading clusters with their internal and cross-cluster volume
+ */
+router.get("/", async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const report = await communityService.getCommunities();
+    res.json({ success: true, data: report });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+export default router;
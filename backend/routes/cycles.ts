@@ -0,0 +1,26 @@
+import express, { Request, Response } from "express";
+import * as cycleService from "../services/cycleService";
+import { validateQuery } from "../validation";
+import { checkFilterRanges, cycleQuerySchema } from "../validation/schemas";
+import { CycleQuery } from "../types";
+
+const router = express.Router();
+
+/**
+ * GET /api/cycles
+ * Find money that flowed out of a business and back to it, ranked by the amount that returned
+ */
+router.get(
+  "/",
+  validateQuery(cycleQuerySchema, checkFilterRanges),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await cycleService.findCycles(res.locals.query as CycleQuery);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,66 @@
+import express, { Request, Response } from "express";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import * as graphExportService from "../services/graphExportService";
+import * as neighborhoodService from "../services/neighborhoodService";
+import { validateQuery } from "../validation";
+import {
+  checkFilterRanges,
+  checkNeighborhoodQuery,
+  graphExportQuerySchema,
+  neighborhoodQuerySchema,
+} from "../validation/schemas";
+import { GraphExportQuery, NeighborhoodQuery } from "../types";
+
+const router = express.Router();
+
+/**
+ * GET /api/graph/export
+ * Download the graph, or the subgraph of the matching transactions, as GraphML, GEXF or a Cypher script
+ */
+router.get(
+  "/export",
+  validateQuery(graphExportQuerySchema, checkFilterRanges),
+  async (_req: Request, res: Response): Promise<void> => {
+    const { format, ...filters } = res.locals.query as GraphExportQuery;
+    let chunks: AsyncGenerator<string>;
+    try {
+      chunks = await graphExportService.openGraphExport(filters, format);
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+      return;
+    }
+
+    const fileName = `graph-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.status(200).set({
+      "Content-Type": graphExportService.GRAPH_EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+    });
+    try {
+      await pipeline(Readable.from(chunks), res);
+    } catch (error) {
+      console.error("Graph export aborted:", (error as Error).message);
+    }
+  }
+);
+
+/**
+ * GET /api/graph/neighborhood
+ * Get the subgraph within a number of hops of one or more seed businesses
+ */
+router.get(
+  "/neighborhood",
+  validateQuery(neighborhoodQuerySchema, checkNeighborhoodQuery),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const neighborhood = await neighborhoodService.getNeighborhood(
+        res.locals.query as NeighborhoodQuery
+      );
+      res.json({ success: true, data: neighborhood });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+export default router;
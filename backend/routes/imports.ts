@@ -0,0 +1,201 @@
+import express, { Request, Response } from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { v4 as uuidv4 } from "uuid";
+import { Server } from "socket.io";
+import * as importService from "../services/importService";
+import { emitImportCompleted } from "../services/notificationService";
+import {
+  sendValidationError,
+  validateParams,
+  validateQuery,
+} from "../validation";
+import {
+  importErrorsQuerySchema,
+  importJobParamsSchema,
+  importQuerySchema,
+} from "../validation/schemas";
+import {
+  ImportErrorsQuery,
+  ImportFormat,
+  ImportJobParams,
+  ImportQuery,
+} from "../types";
+
+const router = express.Router();
+const RECENT_JOBS_LIMIT = 50;
+const DEFAULT_ERRORS_LIMIT = 100;
+const MAX_IMPORT_BYTES = Number(process.env.MAX_IMPORT_BYTES) || 100 * 1024 * 1024;
+
+/**
+ * Pick the file format from ?format= or the Content-Type header
+ */
+const resolveFormat = (req: Request, query: ImportQuery): ImportFormat | null => {
+  if (query.format) return query.format;
+  if (req.is("text/csv")) return "csv";
+  if (req.is("application/x-ndjson") || req.is("application/jsonl")) {
+    return "ndjson";
+  }
+  return null;
+};
+
+/**
+ * Pass through the first maxBytes of a stream and discard the rest, so an oversized upload
+ * is still read to the end and can be answered
+ */
+const limitBytes = (maxBytes: number): Transform & { exceeded: boolean } => {
+  let received = 0;
+  const limiter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (received > maxBytes) limiter.exceeded = true;
+      callback(null, limiter.exceeded ? undefined : chunk);
+    },
+  }) as Transform & { exceeded: boolean };
+  limiter.exceeded = false;
+  return limiter;
+};
+
+const sendTooLarge = (res: Response): void => {
+  res.status(413).json({
+    success: false,
+    error: `Import files are limited to ${MAX_IMPORT_BYTES} bytes; split the file and upload the parts`,
+  });
+};
+
+/**
+ * GET /api/imports
+ * List the most recent import jobs
+ */
+router.get("/", async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const jobs = await importService.getRecentJobs(RECENT_JOBS_LIMIT);
+    res.json({ success: true, data: jobs });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /api/imports
+ * Import transactions from a CSV or NDJSON request body. Responds with 202 and the job,
+ * which runs in the background. Uploading the same file again resumes an unfinished job.
+ * Bodies over MAX_IMPORT_BYTES are refused with 413.
+ */
+router.post(
+  "/",
+  validateQuery(importQuerySchema),
+  async (req: Request, res: Response): Promise<void> => {
+    const query = res.locals.query as ImportQuery;
+    const format = resolveFormat(req, query);
+    if (!format) {
+      sendValidationError(res, [
+        {
+          field: "format",
+          message:
+            "is required unless Content-Type is text/csv or application/x-ndjson",
+        },
+      ]);
+      return;
+    }
+
+    if (Number(req.get("Content-Length")) > MAX_IMPORT_BYTES) {
+      sendTooLarge(res);
+      return;
+    }
+
+    // Spool the upload to disk so large files never have to fit in memory
+    const filePath = path.join(os.tmpdir(), `import-${uuidv4()}.${format}`);
+    const removeFile = () => fs.promises.rm(filePath, { force: true });
+
+    try {
+      const limiter = limitBytes(MAX_IMPORT_BYTES);
+      await pipeline(req, limiter, fs.createWriteStream(filePath));
+      if (limiter.exceeded) {
+        await removeFile();
+        sendTooLarge(res);
+        return;
+      }
+      const job = await importService.prepareImport(
+        filePath,
+        format,
+        query.source || `upload.${format}`
+      );
+      res.status(202).json({ success: true, data: job });
+
+      const io = req.app.get("io") as Server | undefined;
+      importService
+        .runImport(job, filePath)
+        // Imports change too much for graph deltas; clients reload the graph on this event
+        .then((finishedJob) => emitImportCompleted(io, finishedJob))
+        .catch((err) => console.error("Error finishing import:", err))
+        .finally(removeFile);
+    } catch (error) {
+      await removeFile();
+      if (error instanceof importService.ImportInProgressError) {
+        res.status(409).json({ success: false, error: error.message });
+        return;
+      }
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+/**
+ * GET /api/imports/:id
+ * Get the status and progress of an import job
+ */
+router.get(
+  "/:id",
+  validateParams(importJobParamsSchema),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = res.locals.params as ImportJobParams;
+      const job = await importService.getJob(id);
+      if (!job) {
+        res.status(404).json({ success: false, error: "Import job not found" });
+        return;
+      }
+      res.json({ success: true, data: job });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+/**
+ * GET /api/imports/:id/errors
+ * Get the per-row error report of an import job, one page at a time
+ */
+router.get(
+  "/:id/errors",
+  validateParams(importJobParamsSchema),
+  validateQuery(importErrorsQuerySchema),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = res.locals.params as ImportJobParams;
+      const { limit = DEFAULT_ERRORS_LIMIT, cursor = 0 } = res.locals
+        .query as ImportErrorsQuery;
+
+      const job = await importService.getJob(id);
+      if (!job) {
+        res.status(404).json({ success: false, error: "Import job not found" });
+        return;
+      }
+
+      const { items, ...pagination } = await importService.getJobErrors(
+        id,
+        cursor,
+        limit
+      );
+      res.json({ success: true, data: items, pagination });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,58 @@
+import express, { Request, Response } from "express";
+import * as metricsService from "../services/metricsService";
+import { validateParams, validateQuery } from "../validation";
+import {
+  businessIdParamsSchema,
+  businessMetricsQuerySchema,
+  metricsQuerySchema,
+} from "../validation/schemas";
+import { BusinessIdParams, BusinessMetricsQuery, MetricsQuery } from "../types";
+
+const router = express.Router();
+
+/**
+ * GET /api/metrics
+ * Rank businesses by PageRank, betweenness or degree over the transaction graph
+ */
+router.get(
+  "/",
+  validateQuery(metricsQuerySchema),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const report = await metricsService.getTopMetrics(
+        res.locals.query as MetricsQuery
+      );
+      res.json({ success: true, data: report });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+/**
+ * GET /api/metrics/:business_id
+ * Get the centrality metrics of one business
+ */
+router.get(
+  "/:business_id",
+  validateParams(businessIdParamsSchema),
+  validateQuery(businessMetricsQuerySchema),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const { business_id } = res.locals.params as BusinessIdParams;
+      const { weight } = res.locals.query as BusinessMetricsQuery;
+      const metrics = await metricsService.getBusinessMetrics(business_id, weight);
+      if (!metrics) {
+        res
+          .status(404)
+          .json({ success: false, error: "Business not found in the transaction graph" });
+        return;
+      }
+      res.json({ success: true, data: metrics });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+export default router;
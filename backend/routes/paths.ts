@@ -0,0 +1,26 @@
+import express, { Request, Response } from "express";
+import * as pathService from "../services/pathService";
+import { validateQuery } from "../validation";
+import { checkPathQuery, pathQuerySchema } from "../validation/schemas";
+import { PathQuery } from "../types";
+
+const router = express.Router();
+
+/**
+ * GET /api/paths
+ * Find the shortest paths, or all simple paths up to maxHops, between two businesses
+ */
+router.get(
+  "/",
+  validateQuery(pathQuerySchema, checkPathQuery),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await pathService.findPaths(res.locals.query as PathQuery);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,49 @@
+import express, { Request, Response } from "express";
+import * as reconciliationService from "../services/reconciliationService";
+import { requireRole } from "../auth";
+import { validateBody } from "../validation";
+import { repairPolicySchema } from "../validation/schemas";
+import { RepairPolicyDto } from "../types";
+
+const router = express.Router();
+
+/**
+ * GET /api/reconciliation
+ * Diff SQLite businesses against Memgraph nodes and return a drift report
+ */
+router.get("/", async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const report = await reconciliationService.buildDriftReport();
+    res.json({ success: true, data: report });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /api/reconciliation/repair
+ * Repair drift using the policy in the body, falling back to the configured defaults. Admins only.
+ */
+router.post(
+  "/repair",
+  requireRole("admin"),
+  validateBody(repairPolicySchema),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const policy = reconciliationService.resolvePolicy(
+        res.locals.body as RepairPolicyDto
+      );
+
+      const result = await reconciliationService.repairDrift(policy);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      if (error instanceof reconciliationService.InvalidPolicyError) {
+        res.status(400).json({ success: false, error: error.message });
+        return;
+      }
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,28 @@
+import express, { Request, Response } from "express";
+import * as structuringService from "../services/structuringService";
+import { validateQuery } from "../validation";
+import { checkStructuringQuery, structuringQuerySchema } from "../validation/schemas";
+import { StructuringQuery } from "../types";
+
+const router = express.Router();
+
+/**
+ * GET /api/structuring
+ * Find businesses that gathered many small payments into one large payment, or split one into many
+ */
+router.get(
+  "/",
+  validateQuery(structuringQuerySchema, checkStructuringQuery),
+  async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await structuringService.findStructuring(
+        res.locals.query as StructuringQuery
+      );
+      res.json({ success: true, data: result });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  }
+);
+
+export default router;
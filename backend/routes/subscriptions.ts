@@ -0,0 +1,20 @@
+import express, { Request, Response } from "express";
+import { Server } from "socket.io";
+import * as subscriptionService from "../services/subscriptionService";
+import { requireRole } from "../auth";
+
+const router = express.Router();
+
+// Other clients' subscriptions show what they watch, so only admins may list them
+router.use(requireRole("admin"));
+
+/**
+ * GET /api/subscriptions
+ * List the event subscriptions of every connected client, for debugging. Admins only.
+ */
+router.get("/", (req: Request, res: Response): void => {
+  const io = req.app.get("io") as Server | undefined;
+  res.json({ success: true, data: io ? subscriptionService.listSubscriptions(io) : [] });
+});
+
+export default router;
@@ -1,10 +1,34 @@
 import express, { Request, Response } from "express";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
 import * as transactionService from "../services/transactionService";
 import * as transactionSimulatorService from "../services/transactionSimulatorService";
 import * as graphService from "../services/graphService";
+import * as exportService from "../services/exportService";
 import * as graphRepo from "../repositories/graphRepository";
-import { emitGraphUpdate } from "../services/notificationService";
 import { Server } from "socket.io";
+import { requireRole } from "../auth";
+import { validateBody, validateQuery } from "../validation";
+import {
+  checkCursor,
+  checkFilterRanges,
+  checkTransactionListQuery,
+  checkTransactionParties,
+  createTransactionSchema,
+  exportQuerySchema,
+  generateMockTransactionsSchema,
+  paginationQuerySchema,
+  startMockGeneratorSchema,
+  transactionListQuerySchema,
+} from "../validation/schemas";
+import {
+  CreateTransactionDto,
+  ExportQuery,
+  GenerateMockTransactionsDto,
+  PaginationQuery,
+  StartMockGeneratorDto,
+  TransactionListQuery,
+} from "../types";
 
 const router = express.Router();
 let running = false;
@@ -14,16 +38,24 @@ const DEFAULT_INTERVAL_SECONDS = DEFAULT_RATE_SECONDS * 1000;
 
 /**
  * GET /api/transactions
- * Retrieve all transactions
+ * Retrieve a page of transactions
  */
-router.get("/", async (_req: Request, res: Response): Promise<void> => {
-  try {
-    const transactions = await transactionService.getAllTransactions();
-    res.json({ success: true, data: transactions });
-  } catch (error) {
-    res.status(500).json({ success: false, error: (error as Error).message });
+router.get(
+  "/",
+  validateQuery(paginationQuerySchema, checkCursor),
+  async (_req: Request, res: Response): Promise<void> => {
+    const query = res.locals.query as PaginationQuery;
+    try {
+      const { items, ...pagination } =
+        await transactionService.getAllTransactions(
+          transactionService.resolvePageRequest(query)
+        );
+      res.json({ success: true, data: items, pagination });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
   }
-});
+);
 
 /**
  * GET /api/transactions/nodes
@@ -53,73 +85,112 @@ router.get("/edges", async (_req: Request, res: Response): Promise<void> => {
 
 /**
  * GET /api/transactions/filter
- * Filter transactions by business, date range, or amount
+ * Filter transactions by business, date range, or amount, one page at a time
  */
-router.get("/filter", async (req: Request, res: Response): Promise<void> => {
-  const { from, to, startDate, endDate, minAmount, maxAmount } = req.query;
-  try {
-    const filteredTransactions =
-      await transactionService.getFilteredTransactions(
-        from as string | undefined,
-        to as string | undefined,
-        startDate as string | undefined,
-        endDate as string | undefined,
-        minAmount as string | undefined,
-        maxAmount as string | undefined
-      );
-    res.json({ success: true, data: filteredTransactions });
-  } catch (error) {
-    res.status(500).json({ success: false, error: (error as Error).message });
+router.get(
+  "/filter",
+  validateQuery(transactionListQuerySchema, checkTransactionListQuery),
+  async (_req: Request, res: Response): Promise<void> => {
+    const { limit, cursor, sort, order, includeTotal, ...filters } = res.locals
+      .query as TransactionListQuery;
+    try {
+      const { items, ...pagination } =
+        await transactionService.getFilteredTransactions(
+          filters,
+          transactionService.resolvePageRequest({
+            limit,
+            cursor,
+            sort,
+            order,
+            includeTotal,
+          })
+        );
+      res.json({ success: true, data: items, pagination });
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
   }
-});
+);
 
 /**
- * POST /api/transactions
- * Create a new transaction between two businesses
+ * GET /api/transactions/export
+ * Stream the transactions matching the filters as CSV, NDJSON or JSON, with business names
  */
-router.post("/", async (req: Request, res: Response): Promise<void> => {
-  const { from, to, amount, timestamp } = req.body;
-  try {
-    // Create the transaction
-    const transaction = await transactionService.createTransaction({
-      from,
-      to,
-      amount,
-      timestamp,
-    });
+router.get(
+  "/export",
+  validateQuery(exportQuerySchema, checkFilterRanges),
+  async (_req: Request, res: Response): Promise<void> => {
+    const { format, ...filters } = res.locals.query as ExportQuery;
+    let chunks: AsyncGenerator<string>;
+    try {
+      chunks = await exportService.openTransactionExport(filters, format);
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+      return;
+    }
 
-    // Get enriched data for notification
-    const enrichedTransaction = await transactionService.enrichTransaction({
-      from,
-      to,
-      amount,
-      timestamp,
+    const fileName = `transactions-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.status(200).set({
+      "Content-Type": exportService.EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${fileName}"`,
     });
+    try {
+      // pipeline handles backpressure and stops the Memgraph query if the client disconnects
+      await pipeline(Readable.from(chunks), res);
+    } catch (error) {
+      console.error("Transaction export aborted:", (error as Error).message);
+    }
+  }
+);
+
+/**
+ * POST /api/transactions
+ * Create a new transaction between two businesses.
+ * Requests carrying an Idempotency-Key header that was already used return the original transaction.
+ * Responds with 202 when the transaction was recorded but is still waiting to be applied to Memgraph.
+ */
+router.post(
+  "/",
+  validateBody(createTransactionSchema, checkTransactionParties),
+  async (req: Request, res: Response): Promise<void> => {
+    const dto = res.locals.body as CreateTransactionDto;
+    const idempotencyKey = req.get("Idempotency-Key") || undefined;
+    try {
+      // Create the transaction
+      const { transaction, replayed, pending, applied } =
+        await transactionService.createTransaction(dto, idempotencyKey);
 
-    // Emit an event to all connected clients
-    const io = req.app.get("io") as Server | undefined;
-    await emitGraphUpdate(io, enrichedTransaction);
+      if (replayed) {
+        res.set("Idempotent-Replayed", "true");
+      } else if (applied) {
+        // Emit an event to all connected clients
+        const io = req.app.get("io") as Server | undefined;
+        await transactionService.publishTransaction(io, transaction);
+      }
 
-    res.json({ success: true, data: transaction });
-  } catch (error) {
-    res.status(500).json({ success: false, error: (error as Error).message });
+      res
+        .status(pending ? 202 : 200)
+        .json({ success: true, data: transaction, pending });
+    } catch (error) {
+      if (error instanceof transactionService.IdempotencyConflictError) {
+        res.status(422).json({ success: false, error: error.message });
+        return;
+      }
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
   }
-});
+);
 
 /**
  * POST /api/transactions/generate-mock-transactions
- * Create a number of specified transactions between two randomly chosen businesses
+ * Create a number of specified transactions between two randomly chosen businesses. Admins only.
  */
 router.post(
   "/generate-mock-transactions",
-  async (req: Request, res: Response) => {
-    const { numTransactions } = req.body;
-
-    if (numTransactions < 1) {
-      return res
-        .status(400)
-        .json({ success: false, error: "numTransactions must be >= 1" });
-    }
+  requireRole("admin"),
+  validateBody(generateMockTransactionsSchema),
+  async (_req: Request, res: Response) => {
+    const { numTransactions } = res.locals.body as GenerateMockTransactionsDto;
 
     try {
       const results =
@@ -138,21 +209,19 @@ router.post(
 
 /**
  * POST /api/transactions/start-generating-mock-transactions
- * Keeps creating new transactions in batches of specified size every RATE_SECONDS seconds
+ * Keeps creating new transactions in batches of specified size every RATE_SECONDS seconds. Admins only.
  */
 router.post(
   "/start-generating-mock-transactions",
-  async (req: Request, res: Response) => {
-    const { numTransactions, intervalSeconds } = req.body;
-
-    const intervalToRun = intervalSeconds * 1000 || DEFAULT_INTERVAL_SECONDS;
+  requireRole("admin"),
+  validateBody(startMockGeneratorSchema),
+  async (_req: Request, res: Response) => {
+    const { numTransactions, intervalSeconds } =
+      res.locals.body as StartMockGeneratorDto;
 
-    if (numTransactions < 1 || numTransactions > 100) {
-      return res.status(400).json({
-        success: false,
-        error: "numTransactions must be >= 1 and < 100",
-      });
-    }
+    const intervalToRun = intervalSeconds
+      ? intervalSeconds * 1000
+      : DEFAULT_INTERVAL_SECONDS;
 
     if (running) {
       return res.status(400).json({
@@ -195,10 +264,11 @@ router.post(
 
 /**
  * POST /api/transactions/stop-generating-mock-transactions
- * Stops generation of new mock transactions
+ * Stops generation of new mock transactions. Admins only.
  */
 router.post(
   "/stop-generating-mock-transactions",
+  requireRole("admin"),
   async (_req: Request, res: Response) => {
     if (!running) {
       return res.status(400).json({
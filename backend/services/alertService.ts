@@ -0,0 +1,166 @@
+import * as alertRepo from "../repositories/alertRepository";
+import * as businessRepo from "../repositories/businessRepository";
+import * as graphRepo from "../repositories/graphRepository";
+import {
+  Alert,
+  AlertListQuery,
+  AlertRule,
+  AlertRuleDefinition,
+  AlertStatus,
+  CreateAlertRuleDto,
+  Page,
+  Transaction,
+  UpdateAlertRuleDto,
+} from "../types";
+
+const DEFAULT_ALERTS_LIMIT = 100;
+
+type BusinessDetails = Awaited<ReturnType<typeof businessRepo.getBusinessDetails>>;
+
+export const getRules = async (): Promise<AlertRule[]> => alertRepo.findAllRules();
+
+export const getRule = async (id: number): Promise<AlertRule | null> =>
+  alertRepo.findRuleById(id);
+
+export const createRule = async (dto: CreateAlertRuleDto): Promise<AlertRule> =>
+  alertRepo.createRule({
+    name: dto.name,
+    description: dto.description ?? null,
+    severity: dto.severity,
+    enabled: dto.enabled ?? true,
+    definition: dto.definition,
+  });
+
+/**
+ * Apply a partial update to a rule
+ * @returns The updated rule, or null if it doesn't exist
+ */
+export const updateRule = async (
+  id: number,
+  dto: UpdateAlertRuleDto
+): Promise<AlertRule | null> => {
+  const rule = await alertRepo.findRuleById(id);
+  if (!rule) return null;
+  return alertRepo.updateRule({ ...rule, ...dto });
+};
+
+/**
+ * Delete a rule. Alerts it already raised are kept.
+ * @returns Whether the rule existed
+ */
+export const deleteRule = async (id: number): Promise<boolean> =>
+  alertRepo.deleteRule(id);
+
+/**
+ * Get a page of alerts, newest first
+ */
+export const getAlerts = async (query: AlertListQuery): Promise<Page<Alert>> => {
+  const { limit = DEFAULT_ALERTS_LIMIT, cursor, ...filters } = query;
+  const items = await alertRepo.findAlerts(filters, cursor, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: items.length === limit && last ? String(last.id) : null,
+    limit,
+  };
+};
+
+/**
+ * Acknowledge or resolve an alert, or reopen it
+ * @returns The updated alert, or null if it doesn't exist
+ */
+export const updateAlertStatus = async (
+  id: number,
+  status: AlertStatus
+): Promise<Alert | null> => alertRepo.updateAlertStatus(id, status);
+
+/**
+ * Check a transaction against one rule
+ * @returns A description of why the rule matched, or null if it didn't
+ */
+const matchRule = async (
+  definition: AlertRuleDefinition,
+  transaction: Transaction,
+  details: () => Promise<BusinessDetails>
+): Promise<string | null> => {
+  switch (definition.type) {
+    case "amount_threshold":
+      return transaction.amount >= definition.minAmount
+        ? `Amount ${transaction.amount} is at least ${definition.minAmount}`
+        : null;
+
+    case "industry_pair": {
+      const { industryMap } = await details();
+      const fromIndustry = industryMap[transaction.from];
+      const toIndustry = industryMap[transaction.to];
+      const sameIndustry = (actual: string | undefined, expected: string | undefined) =>
+        expected === undefined || actual?.toLowerCase() === expected.toLowerCase();
+      return sameIndustry(fromIndustry, definition.fromIndustry) &&
+        sameIndustry(toIndustry, definition.toIndustry)
+        ? `Payment from ${fromIndustry ?? "unknown industry"} to ${toIndustry ?? "unknown industry"}`
+        : null;
+    }
+
+    case "velocity": {
+      const direction = definition.direction ?? "outgoing";
+      const business = direction === "outgoing" ? transaction.from : transaction.to;
+      const time = Date.parse(transaction.timestamp);
+      const { count, total } = await graphRepo.summarizeEdges({
+        ...(direction === "outgoing" ? { from: business } : { to: business }),
+        startDate: new Date(time - definition.windowMinutes * 60 * 1000).toISOString(),
+        endDate: transaction.timestamp,
+      });
+      const tooMany = definition.maxCount !== undefined && count > definition.maxCount;
+      const tooMuch = definition.maxAmount !== undefined && total > definition.maxAmount;
+      if (!tooMany && !tooMuch) return null;
+
+      const { nameMap } = await details();
+      return `${nameMap[business] ?? business} ${direction === "outgoing" ? "sent" : "received"} ` +
+        `${count} transactions totalling ${total} in ${definition.windowMinutes} minutes`;
+    }
+
+    case "new_counterparty": {
+      if (definition.minAmount !== undefined && transaction.amount < definition.minAmount) {
+        return null;
+      }
+      // The new transaction is already in the graph, so a first payment counts once
+      const { count } = await graphRepo.summarizeEdges({
+        from: transaction.from,
+        to: transaction.to,
+      });
+      if (count > 1) return null;
+
+      const { nameMap } = await details();
+      return `First payment from ${nameMap[transaction.from] ?? transaction.from} ` +
+        `to ${nameMap[transaction.to] ?? transaction.to}`;
+    }
+  }
+};
+
+/**
+ * Evaluate every enabled rule against a newly created transaction and record an alert for
+ * each one that matches. A rule that fails to evaluate is logged and skipped.
+ * @returns The alerts that were raised
+ */
+export const evaluateTransaction = async (transaction: Transaction): Promise<Alert[]> => {
+  const rules = await alertRepo.findEnabledRules();
+  if (rules.length === 0) return [];
+
+  // Business names and industries are looked up once, and only if a rule needs them
+  let detailsPromise: Promise<BusinessDetails> | undefined;
+  const details = () =>
+    (detailsPromise ??= businessRepo.getBusinessDetails([transaction.from, transaction.to]));
+
+  const alerts: Alert[] = [];
+  for (const rule of rules) {
+    try {
+      const message = await matchRule(rule.definition, transaction, details);
+      if (!message) continue;
+      const alert = await alertRepo.insertAlert(rule, transaction, message);
+      if (alert) alerts.push(alert);
+    } catch (error) {
+      console.error(`Error evaluating alert rule ${rule.id}:`, (error as Error).message);
+    }
+  }
+  return alerts;
+};
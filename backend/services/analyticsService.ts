@@ -0,0 +1,89 @@
+import * as graphRepo from "../repositories/graphRepository";
+import { resolveEdgeFilters } from "./transactionService";
+import {
+  TransactionFilters,
+  VolumeBucket,
+  VolumeInterval,
+  VolumeReport,
+  VolumeStats,
+} from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type PartialBucket = Omit<VolumeBucket, "avg">;
+
+/**
+ * Start of the ISO week (Monday, UTC) containing the given YYYY-MM-DD day
+ */
+const weekStart = (day: string): string => {
+  const date = new Date(`${day}T00:00:00.000Z`);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return new Date(date.getTime() - daysSinceMonday * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+};
+
+/**
+ * Combine the stats of two buckets covering disjoint sets of transactions
+ */
+const mergeBuckets = (a: PartialBucket, b: PartialBucket): PartialBucket => ({
+  bucketStart: a.bucketStart,
+  count: a.count + b.count,
+  sum: a.sum + b.sum,
+  min: a.min === null ? b.min : b.min === null ? a.min : Math.min(a.min, b.min),
+  max: a.max === null ? b.max : b.max === null ? a.max : Math.max(a.max, b.max),
+});
+
+const withAverage = <T extends Omit<VolumeStats, "avg">>(
+  stats: T
+): T & { avg: number | null } => ({
+  ...stats,
+  avg: stats.count > 0 ? stats.sum / stats.count : null,
+});
+
+/**
+ * Aggregate transaction volume into hourly, daily or weekly buckets.
+ * Uses the same filters as the transaction list, so bucket counts add up to the rows it shows.
+ * Buckets without transactions are omitted.
+ */
+export const getVolume = async (
+  interval: VolumeInterval,
+  filters: TransactionFilters
+): Promise<VolumeReport> => {
+  const edgeFilters = await resolveEdgeFilters(filters);
+  const rows = await graphRepo.aggregateEdgeVolume(
+    edgeFilters,
+    interval === "hour" ? "hour" : "day"
+  );
+
+  // Weeks can't be expressed as a timestamp prefix, so daily buckets are rolled up here
+  const buckets = new Map<string, PartialBucket>();
+  rows.forEach(({ bucket, ...stats }) => {
+    const bucketStart =
+      interval === "hour"
+        ? `${bucket}:00:00.000Z`
+        : `${interval === "week" ? weekStart(bucket) : bucket}T00:00:00.000Z`;
+    const existing = buckets.get(bucketStart);
+    const current = { bucketStart, ...stats };
+    buckets.set(
+      bucketStart,
+      existing ? mergeBuckets(existing, current) : current
+    );
+  });
+
+  const merged = Array.from(buckets.values());
+  const totals = merged.reduce<PartialBucket>(mergeBuckets, {
+    bucketStart: "",
+    count: 0,
+    sum: 0,
+    min: null,
+    max: null,
+  });
+  const { bucketStart: _bucketStart, ...totalStats } = totals;
+
+  return {
+    interval,
+    buckets: merged.map(withAverage),
+    totals: withAverage(totalStats),
+  };
+};
@@ -0,0 +1,80 @@
+import crypto from "crypto";
+import * as auditRepo from "../repositories/auditRepository";
+import {
+  AuditEntry,
+  AuditListQuery,
+  AuditOutcome,
+  AuditVerification,
+  Page,
+  Principal,
+} from "../types";
+
+const DEFAULT_AUDIT_LIMIT = 100;
+const VERIFY_BATCH_SIZE = 1000;
+
+/**
+ * Record a mutating API call
+ * @param payload - What the caller sent; only its digest is stored
+ */
+export const recordCall = async (call: {
+  principal: Principal | undefined;
+  ip: string | undefined;
+  method: string;
+  path: string;
+  statusCode: number | null;
+  outcome: AuditOutcome;
+  payload: unknown;
+}): Promise<AuditEntry> =>
+  auditRepo.append({
+    created_at: new Date().toISOString(),
+    actor: call.principal?.name ?? "anonymous",
+    actor_key_id: call.principal?.keyId ?? null,
+    role: call.principal?.role ?? null,
+    ip: call.ip ?? null,
+    method: call.method,
+    path: call.path,
+    status_code: call.statusCode,
+    outcome: call.outcome,
+    payload_digest: crypto
+      .createHash("sha256")
+      .update(JSON.stringify(call.payload ?? null))
+      .digest("hex"),
+  });
+
+/**
+ * Get a page of audit entries, newest first
+ */
+export const getEntries = async (query: AuditListQuery): Promise<Page<AuditEntry>> => {
+  const { limit = DEFAULT_AUDIT_LIMIT, cursor, ...filters } = query;
+  const items = await auditRepo.findEntries(filters, cursor, limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: items.length === limit && last ? String(last.id) : null,
+    limit,
+  };
+};
+
+/**
+ * Recompute the hash chain from the first entry and report the first entry that doesn't match
+ */
+export const verifyChain = async (): Promise<AuditVerification> => {
+  let prevHash = auditRepo.GENESIS_HASH;
+  let lastId = 0;
+  let checked = 0;
+
+  for (;;) {
+    const entries = await auditRepo.findEntriesAfter(lastId, VERIFY_BATCH_SIZE);
+    for (const { id, prev_hash, hash, ...entry } of entries) {
+      if (prev_hash !== prevHash || hash !== auditRepo.hashEntry(entry, prev_hash)) {
+        return { valid: false, checked, brokenAt: id };
+      }
+      prevHash = hash;
+      lastId = id;
+      checked++;
+    }
+    if (entries.length < VERIFY_BATCH_SIZE) break;
+  }
+
+  return { valid: true, checked, brokenAt: null };
+};
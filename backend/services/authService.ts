@@ -0,0 +1,83 @@
+import crypto from "crypto";
+import * as apiKeyRepo from "../repositories/apiKeyRepository";
+import { ApiKey, ApiKeyRole, CreateApiKeyDto, IssuedApiKey, Principal } from "../types";
+
+const ROLE_RANKS: Record<ApiKeyRole, number> = {
+  viewer: 0,
+  analyst: 1,
+  admin: 2,
+};
+
+const KEY_PREFIX = "sk_";
+const KEY_BYTES = 32;
+const PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+const hashKey = (key: string): string =>
+  crypto.createHash("sha256").update(key).digest("hex");
+
+// Full access without a stored key, so the first keys can be issued
+const bootstrapKeyHash = process.env.ADMIN_API_KEY
+  ? hashKey(process.env.ADMIN_API_KEY)
+  : null;
+
+// Lets the mock transaction generator call the API of its own server; never leaves the process
+const internalToken = KEY_PREFIX + crypto.randomBytes(KEY_BYTES).toString("base64url");
+const internalTokenHash = hashKey(internalToken);
+
+const sameHash = (a: string, b: string): boolean =>
+  crypto.timingSafeEqual(Buffer.from(a, "hex"), Buffer.from(b, "hex"));
+
+/**
+ * Whether a principal's role includes the required role
+ */
+export const hasRole = (principal: Principal | undefined, required: ApiKeyRole): boolean =>
+  principal !== undefined && ROLE_RANKS[principal.role] >= ROLE_RANKS[required];
+
+/**
+ * The token the mock transaction generator sends with its requests
+ */
+export const getInternalToken = (): string => internalToken;
+
+/**
+ * Find out who a key belongs to
+ * @returns The principal, or null if the key is unknown or revoked
+ */
+export const authenticate = async (key: unknown): Promise<Principal | null> => {
+  if (typeof key !== "string" || key === "") return null;
+  const keyHash = hashKey(key);
+
+  if (sameHash(keyHash, internalTokenHash)) {
+    return { keyId: null, name: "simulator", role: "analyst" };
+  }
+  if (bootstrapKeyHash && sameHash(keyHash, bootstrapKeyHash)) {
+    return { keyId: null, name: "admin", role: "admin" };
+  }
+
+  const apiKey = await apiKeyRepo.findActiveByHash(keyHash);
+  if (!apiKey) return null;
+  await apiKeyRepo.touch(apiKey.id);
+  return { keyId: apiKey.id, name: apiKey.name, role: apiKey.role };
+};
+
+export const getKeys = async (): Promise<ApiKey[]> => apiKeyRepo.findAll();
+
+/**
+ * Issue a new API key. The key itself is only returned here; the database keeps its hash.
+ */
+export const issueKey = async (dto: CreateApiKeyDto): Promise<IssuedApiKey> => {
+  const key = KEY_PREFIX + crypto.randomBytes(KEY_BYTES).toString("base64url");
+  const apiKey = await apiKeyRepo.insert({
+    name: dto.name,
+    role: dto.role,
+    prefix: key.slice(0, PREFIX_LENGTH),
+    keyHash: hashKey(key),
+  });
+  return { ...apiKey, key };
+};
+
+/**
+ * Revoke an API key; requests using it are refused from then on
+ * @returns The revoked key, or null if it doesn't exist
+ */
+export const revokeKey = async (id: number): Promise<ApiKey | null> =>
+  apiKeyRepo.revoke(id);
@@ -1,89 +1,236 @@
 import { v4 as uuidv4 } from "uuid";
-import * as businessRepo from "../repositories/businessRepository";
-import * as graphRepo from "../repositories/graphRepository";
-import { Business, CreateBusinessDto } from "../types";
+import * as businessRepository from "../repositories/businessRepository";
+import * as graphRepository from "../repositories/graphRepository";
+import * as outboxService from "./outboxService";
+import * as riskService from "./riskService";
+import {
+  Business,
+  BusinessWithRisk,
+  CreateBusinessDto,
+  UpdateBusinessDto,
+} from "../types";
 
 /**
- * Get all businesses
+ * The stores behind businesses, and the outbox that syncs their Memgraph nodes
  */
-export const getAllBusinesses = async (): Promise<Business[]> => {
-  return await businessRepo.findAllBusinesses();
-};
+export interface BusinessServiceDependencies {
+  businessRepo: Pick<
+    typeof businessRepository,
+    | "findAllBusinesses"
+    | "findBusinessById"
+    | "getBusinessDetails"
+    | "createBusiness"
+    | "updateBusiness"
+    | "deleteBusiness"
+  >;
+  graphRepo: Pick<typeof graphRepository, "countEdgesByNode">;
+  dispatchEvent: typeof outboxService.dispatchEvent;
+  getRiskScores: typeof riskService.getRiskScores;
+}
 
 /**
- * Get a business by ID
+ * Create the business service around its stores
  */
-export const getBusinessById = async (
-  businessId: string
-): Promise<Business | null> => {
-  return await businessRepo.findBusinessById(businessId);
-};
+export const createBusinessService = ({
+  businessRepo,
+  graphRepo,
+  dispatchEvent,
+  getRiskScores,
+}: BusinessServiceDependencies) => {
 
-/**
- * Get multiple businesses by IDs
- */
-export const getBusinessesByIds = async (
-  businessIds: string[]
-): Promise<Business[]> => {
-  const { nameMap, industryMap } = await businessRepo.getBusinessDetails(
-    businessIds
-  );
-
-  return businessIds
-    .map((businessId) => ({
-      business_id: businessId,
-      name: nameMap[businessId],
-      industry: industryMap[businessId],
-    }))
-    .filter((b) => b.name); // Filter out any businesses that weren't found
-};
+  /**
+   * Get all businesses
+   */
+  const getAllBusinesses = async (): Promise<Business[]> => {
+    return await businessRepo.findAllBusinesses();
+  };
 
-/**
- * Create a new business in both SQLite and Memgraph
- */
-export const createBusiness = async (
-  dto: CreateBusinessDto
-): Promise<{
-  success: boolean;
-  id?: number;
-  businessId?: string;
-  error?: string;
-}> => {
-  const businessId = uuidv4();
-
-  try {
-    // Create in SQLite first
-    const sqliteResult = await businessRepo.createBusiness(
-      businessId,
-      dto.name,
-      dto.industry
+  /**
+   * Get all businesses with their risk scores. The businesses are returned without
+   * scores until the scores have first been computed from the transaction graph.
+   */
+  const getAllBusinessesWithRisk = async (): Promise<BusinessWithRisk[]> => {
+    const businesses = await businessRepo.findAllBusinesses();
+    const scores = getRiskScores(businesses.map((b) => b.business_id));
+    return businesses.map((b) => ({ ...b, risk: scores.get(b.business_id) ?? null }));
+  };
+
+  /**
+   * Get a business by ID
+   */
+  const getBusinessById = async (
+    businessId: string
+  ): Promise<Business | null> => {
+    return await businessRepo.findBusinessById(businessId);
+  };
+
+  /**
+   * Get multiple businesses by IDs
+   */
+  const getBusinessesByIds = async (
+    businessIds: string[]
+  ): Promise<Business[]> => {
+    const { nameMap, industryMap } = await businessRepo.getBusinessDetails(
+      businessIds
     );
 
-    // Then create in Memgraph
-    await graphRepo.createOrFindNode(businessId);
-
-    return {
-      success: true,
-      id: sqliteResult.id,
-      businessId: businessId,
-    };
-  } catch (error) {
-    // If Memgraph fails, we should ideally rollback SQLite
-    // For now, we'll just log and return error
-    console.error("Error creating business:", error);
-    return {
-      success: false,
-      error: (error as Error).message,
-    };
-  }
-};
+    return businessIds
+      .map((businessId) => ({
+        business_id: businessId,
+        name: nameMap[businessId],
+        industry: industryMap[businessId],
+      }))
+      .filter((b) => b.name); // Filter out any businesses that weren't found
+  };
 
-/**
- * Get transaction count for a specific business
- */
-export const getBusinessTransactionCount = async (
-  businessId: string
-): Promise<{ businessId: string; transactionCount: number }> => {
-  const transactionCount = await graphRepo.countEdgesByNode(businessId);
-  return { businessId, transactionCount };
+  /**
+   * Create a new business in both SQLite and Memgraph.
+   * The SQLite row and its outbox event are written atomically; the Memgraph node is
+   * applied right away when possible and otherwise by the outbox dispatcher.
+   */
+  const createBusiness = async (
+    dto: CreateBusinessDto
+  ): Promise<{
+    success: boolean;
+    id?: number;
+    businessId?: string;
+    error?: string;
+  }> => {
+    const businessId = uuidv4();
+
+    try {
+      const sqliteResult = await businessRepo.createBusiness(
+        businessId,
+        dto.name,
+        dto.industry
+      );
+
+      const { applied, error } = await dispatchEvent(
+        sqliteResult.outboxEventId
+      );
+      if (!applied) {
+        console.warn(
+          `Business ${businessId} created; Memgraph sync deferred to the outbox: ${error}`
+        );
+      }
+
+      return {
+        success: true,
+        id: sqliteResult.id,
+        businessId: businessId,
+      };
+    } catch (error) {
+      console.error("Error creating business:", error);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  };
+
+  /**
+   * Update the name and/or industry of a business.
+   * Only SQLite holds these fields, so Memgraph is left untouched.
+   * @returns The updated business, or null if it does not exist
+   */
+  const updateBusiness = async (
+    businessId: string,
+    dto: UpdateBusinessDto
+  ): Promise<Business | null> => {
+    const existing = await businessRepo.findBusinessById(businessId);
+    if (!existing) return null;
+
+    await businessRepo.updateBusiness(businessId, dto);
+    return await businessRepo.findBusinessById(businessId);
+  };
+
+  /**
+   * Delete a business from both Memgraph and SQLite.
+   *
+   * Deletion policy: a business that still has TRANSACTION edges is refused unless
+   * `cascade` is set, in which case its edges are deleted along with the node.
+   * The SQLite row is removed together with an outbox event that removes the Memgraph node;
+   * the graph write decides whether the business has edges, and if it refuses, the row is restored.
+   * If Memgraph is unavailable the deletion stays pending and may still be refused.
+   */
+  const deleteBusiness = async (
+    businessId: string,
+    options: { cascade?: boolean } = {}
+  ): Promise<{
+    success: boolean;
+    pending?: boolean;
+    removedTransactions?: number;
+    reason?: "not_found" | "has_transactions";
+    error?: string;
+  }> => {
+    try {
+      const { outboxEventId } = await businessRepo.deleteBusiness(
+        businessId,
+        options.cascade ?? false
+      );
+      if (!outboxEventId) {
+        return { success: false, reason: "not_found", error: "Business not found" };
+      }
+
+      const { applied, result } = await dispatchEvent(
+        outboxEventId
+      );
+      if (!applied) {
+        return { success: true, pending: true, removedTransactions: 0 };
+      }
+
+      const { deleted, transactionCount } = result as {
+        deleted: boolean;
+        transactionCount: number;
+      };
+      if (!deleted) {
+        return {
+          success: false,
+          reason: "has_transactions",
+          error: `Business has ${transactionCount} transactions; pass cascade=true to delete them as well`,
+        };
+      }
+      return { success: true, removedTransactions: transactionCount };
+    } catch (error) {
+      console.error("Error deleting business:", error);
+      return { success: false, error: (error as Error).message };
+    }
+  };
+
+  /**
+   * Get transaction count for a specific business
+   */
+  const getBusinessTransactionCount = async (
+    businessId: string
+  ): Promise<{ businessId: string; transactionCount: number }> => {
+    const transactionCount = await graphRepo.countEdgesByNode(businessId);
+    return { businessId, transactionCount };
+  };
+
+  return {
+    getAllBusinesses,
+    getAllBusinessesWithRisk,
+    getBusinessById,
+    getBusinessesByIds,
+    createBusiness,
+    updateBusiness,
+    deleteBusiness,
+    getBusinessTransactionCount,
+  };
 };
+
+export const {
+  getAllBusinesses,
+  getAllBusinessesWithRisk,
+  getBusinessById,
+  getBusinessesByIds,
+  createBusiness,
+  updateBusiness,
+  deleteBusiness,
+  getBusinessTransactionCount,
+} = createBusinessService({
+  businessRepo: businessRepository,
+  graphRepo: graphRepository,
+  dispatchEvent: (eventId) => outboxService.dispatchEvent(eventId),
+  getRiskScores: (businessIds) => riskService.getRiskScores(businessIds),
+});
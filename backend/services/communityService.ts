@@ -0,0 +1,94 @@
+import * as graphRepo from "../repositories/graphRepository";
+import { enrichNodes } from "./graphService";
+import { detectCommunities } from "../utils/communities";
+import { ClusterFlow, CommunityCluster, CommunityReport } from "../types";
+
+const round = (value: number, digits = 4): number => Number(value.toFixed(digits));
+
+/**
+ * Group businesses into trading clusters and summarize the money moving within and between them
+ * @returns Clusters largest first, flows between clusters by amount, and the partition's modularity
+ */
+export const getCommunities = async (): Promise<CommunityReport> => {
+  const [nodes, edges] = await Promise.all([
+    graphRepo.getAllNodes(),
+    graphRepo.getAllEdges(),
+  ]);
+  const clusterOf = detectCommunities(
+    nodes.map((node) => node.id),
+    edges
+  );
+
+  const memberIds = new Map<number, string[]>();
+  clusterOf.forEach((clusterId, id) => {
+    const list = memberIds.get(clusterId);
+    if (list) list.push(id);
+    else memberIds.set(clusterId, [id]);
+  });
+
+  const clusters: CommunityCluster[] = Array.from(memberIds.keys())
+    .sort((a, b) => a - b)
+    .map((clusterId) => ({
+      clusterId,
+      size: memberIds.get(clusterId)!.length,
+      members: [],
+      internalTransactionCount: 0,
+      internalVolume: 0,
+      outgoingVolume: 0,
+      incomingVolume: 0,
+    }));
+
+  const flows = new Map<string, ClusterFlow>();
+  // Undirected amount-weighted degree per cluster, for modularity
+  const degree = new Array<number>(clusters.length).fill(0);
+  let internalWeight = 0;
+  let totalWeight = 0;
+
+  edges.forEach((edge) => {
+    const source = clusterOf.get(edge.source)!;
+    const target = clusterOf.get(edge.target)!;
+
+    if (source === target) {
+      clusters[source].internalTransactionCount += edge.transactionCount;
+      clusters[source].internalVolume += edge.transactionAmount;
+    } else {
+      clusters[source].outgoingVolume += edge.transactionAmount;
+      clusters[target].incomingVolume += edge.transactionAmount;
+
+      const key = `${source}->${target}`;
+      const flow = flows.get(key) ?? { source, target, transactionCount: 0, transactionAmount: 0 };
+      flow.transactionCount += edge.transactionCount;
+      flow.transactionAmount += edge.transactionAmount;
+      flows.set(key, flow);
+    }
+
+    // Self-payments don't link businesses, matching the clustering
+    if (edge.source === edge.target || edge.transactionAmount <= 0) return;
+    totalWeight += edge.transactionAmount;
+    degree[source] += edge.transactionAmount;
+    degree[target] += edge.transactionAmount;
+    if (source === target) internalWeight += edge.transactionAmount;
+  });
+
+  const modularity =
+    totalWeight > 0
+      ? internalWeight / totalWeight -
+        degree.reduce((sum, d) => sum + (d / (2 * totalWeight)) ** 2, 0)
+      : 0;
+
+  const details = await enrichNodes(Array.from(clusterOf.keys()));
+  clusters.forEach((cluster) => {
+    cluster.members = memberIds
+      .get(cluster.clusterId)!
+      .sort()
+      .map((id) => details.get(id)!);
+  });
+
+  return {
+    clusters,
+    flows: Array.from(flows.values()).sort(
+      (a, b) => b.transactionAmount - a.transactionAmount || a.source - b.source || a.target - b.target
+    ),
+    modularity: round(modularity),
+  };
+};
@@ -0,0 +1,135 @@
+import * as graphRepo from "../repositories/graphRepository";
+import { enrichNodes } from "./graphService";
+import {
+  CycleQuery,
+  CycleSearchResult,
+  Transaction,
+  TransactionCycle,
+} from "../types";
+
+const DEFAULT_MAX_LENGTH = 4;
+const DEFAULT_TOLERANCE = 0.1;
+const DEFAULT_CYCLE_LIMIT = 50;
+// Bounds on the work a single search may do, so a dense time window can't stall the server
+const MAX_SCANNED_TRANSACTIONS = 200000;
+const MAX_EXPANSIONS = 500000;
+
+type TimedTransaction = Transaction & { time: number };
+
+/**
+ * Index of the first transaction strictly later than the given time
+ */
+const firstAfter = (sorted: TimedTransaction[], time: number): number => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid].time <= time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+/**
+ * Find temporal cycles: chains of transactions that start and end at the same business,
+ * where each transaction happens after the previous one and is at most `tolerance`
+ * smaller than it (and never larger). Each cycle is found once, from its earliest transaction.
+ * Cycles are ranked by the amount that returned to the origin.
+ */
+export const findCycles = async (query: CycleQuery): Promise<CycleSearchResult> => {
+  const maxLength = query.maxLength ?? DEFAULT_MAX_LENGTH;
+  const tolerance = query.tolerance ?? DEFAULT_TOLERANCE;
+  const limit = query.limit ?? DEFAULT_CYCLE_LIMIT;
+  const maxSpanMs =
+    query.maxSpanHours !== undefined ? query.maxSpanHours * 3600 * 1000 : Infinity;
+
+  // Load the time window once and index it by sender, oldest first
+  const outgoing = new Map<string, TimedTransaction[]>();
+  const all: TimedTransaction[] = [];
+  let truncated = false;
+  for await (const t of graphRepo.streamEdges({
+    startDate: query.startDate,
+    endDate: query.endDate,
+    minAmount: query.minAmount,
+  })) {
+    if (all.length >= MAX_SCANNED_TRANSACTIONS) {
+      truncated = true;
+      break;
+    }
+    const timed = { ...t, time: Date.parse(t.timestamp) };
+    if (Number.isNaN(timed.time)) continue;
+    all.push(timed);
+    const list = outgoing.get(t.from);
+    if (list) list.push(timed);
+    else outgoing.set(t.from, [timed]);
+  }
+  outgoing.forEach((list) => list.sort((a, b) => a.time - b.time));
+
+  const found: TimedTransaction[][] = [];
+  let expansions = 0;
+
+  const extend = (path: TimedTransaction[], visited: Set<string>): void => {
+    const first = path[0];
+    const last = path[path.length - 1];
+    const candidates = outgoing.get(last.to) || [];
+
+    for (let i = firstAfter(candidates, last.time); i < candidates.length; i++) {
+      const next = candidates[i];
+      if (next.time - first.time > maxSpanMs) break;
+      if (++expansions > MAX_EXPANSIONS) {
+        truncated = true;
+        return;
+      }
+      if (next.amount > last.amount || next.amount < last.amount * (1 - tolerance)) {
+        continue;
+      }
+
+      if (next.to === first.from) {
+        found.push([...path, next]);
+      } else if (path.length + 1 < maxLength && !visited.has(next.to)) {
+        visited.add(next.to);
+        extend([...path, next], visited);
+        visited.delete(next.to);
+        if (truncated) return;
+      }
+    }
+  };
+
+  for (const start of all) {
+    if (truncated) break;
+    extend([start], new Set([start.from, start.to]));
+  }
+
+  const matching = query.business
+    ? found.filter((path) => path.some((t) => t.from === query.business))
+    : found;
+  const ranked = matching
+    .sort(
+      (a, b) =>
+        b[b.length - 1].amount - a[a.length - 1].amount ||
+        a[a.length - 1].time - a[0].time - (b[b.length - 1].time - b[0].time)
+    )
+    .slice(0, limit);
+
+  const nodes = await enrichNodes(
+    Array.from(new Set(ranked.flatMap((path) => path.map((t) => t.from))))
+  );
+
+  const cycles: TransactionCycle[] = ranked.map((path) => {
+    const first = path[0];
+    const last = path[path.length - 1];
+    return {
+      length: path.length,
+      businesses: path.map((t) => nodes.get(t.from)!),
+      transactions: path.map(({ time: _time, ...t }) => t),
+      startAmount: first.amount,
+      returnedAmount: last.amount,
+      retainedRatio: last.amount / first.amount,
+      startedAt: first.timestamp,
+      endedAt: last.timestamp,
+      spanSeconds: Math.round((last.time - first.time) / 1000),
+    };
+  });
+
+  return { cycles, scannedTransactions: all.length, truncated };
+};
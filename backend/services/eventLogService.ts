@@ -0,0 +1,42 @@
+import { v4 as uuidv4 } from "uuid";
+import { EventLogEntry, EventPosition, TransactionWithIndustries } from "../types";
+
+// Most recent events kept for clients that reconnect
+const EVENT_LOG_SIZE = Number(process.env.EVENT_LOG_SIZE) || 1000;
+
+// A new epoch per server run, so a client never replays against sequence numbers from a previous run
+const epoch = uuidv4();
+let sequence = 0;
+const log: EventLogEntry[] = [];
+
+/**
+ * Give an event the next sequence number and keep it for replay, dropping the oldest event when the log is full
+ */
+export const recordEvent = (
+  event: string,
+  payload: unknown,
+  scope?: TransactionWithIndustries
+): EventLogEntry => {
+  const entry: EventLogEntry = { seq: ++sequence, event, payload, scope };
+  log.push(entry);
+  if (log.length > EVENT_LOG_SIZE) log.shift();
+  return entry;
+};
+
+/**
+ * Position of the last event
+ */
+export const getEventPosition = (): EventPosition => ({ epoch, seq: sequence });
+
+/**
+ * The events after a client's last seen event, oldest first
+ * @returns The events, or null if they can't be replayed: the client's position is from another
+ *   server run, or some of the events it missed have already been dropped from the log
+ */
+export const eventsSince = (clientEpoch: string, lastSeq: number): EventLogEntry[] | null => {
+  if (clientEpoch !== epoch || lastSeq > sequence) return null;
+
+  const oldest = log.length > 0 ? log[0].seq : sequence + 1;
+  if (lastSeq + 1 < oldest) return null;
+  return log.slice(lastSeq + 1 - oldest);
+};
@@ -0,0 +1,127 @@
+import * as businessRepo from "../repositories/businessRepository";
+import * as graphRepo from "../repositories/graphRepository";
+import { resolveEdgeFilters } from "./transactionService";
+import { formatCsvRow } from "../utils/csv";
+import {
+  ExportFormat,
+  ExportedTransaction,
+  Transaction,
+  TransactionFilters,
+} from "../types";
+
+// Rows are enriched with business names this many at a time
+const ENRICH_CHUNK_SIZE = 500;
+
+const CSV_COLUMNS: (keyof ExportedTransaction)[] = [
+  "id",
+  "from",
+  "fromName",
+  "to",
+  "toName",
+  "amount",
+  "timestamp",
+];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+/**
+ * Stream the transactions matching the filters with business names added.
+ * Names are looked up once per chunk of rows and cached for the rest of the export.
+ */
+export async function* streamTransactions(
+  filters: TransactionFilters
+): AsyncGenerator<ExportedTransaction> {
+  const edges = graphRepo.streamEdges(await resolveEdgeFilters(filters));
+  const names = new Map<string, string | null>();
+  let chunk: Transaction[] = [];
+
+  const enrichChunk = async (): Promise<ExportedTransaction[]> => {
+    const unknownIds = new Set<string>();
+    chunk.forEach((t) => {
+      if (!names.has(t.from)) unknownIds.add(t.from);
+      if (!names.has(t.to)) unknownIds.add(t.to);
+    });
+    if (unknownIds.size > 0) {
+      const { nameMap } = await businessRepo.getBusinessDetails(
+        Array.from(unknownIds)
+      );
+      unknownIds.forEach((id) => names.set(id, nameMap[id] ?? null));
+    }
+
+    const rows = chunk.map((t) => ({
+      id: t.id,
+      from: t.from,
+      fromName: names.get(t.from) ?? null,
+      to: t.to,
+      toName: names.get(t.to) ?? null,
+      amount: t.amount,
+      timestamp: t.timestamp,
+    }));
+    chunk = [];
+    return rows;
+  };
+
+  for await (const edge of edges) {
+    chunk.push(edge);
+    if (chunk.length >= ENRICH_CHUNK_SIZE) {
+      yield* await enrichChunk();
+    }
+  }
+  yield* await enrichChunk();
+}
+
+/**
+ * Serialize a stream of transactions to text chunks in the requested format
+ */
+export async function* serializeTransactions(
+  rows: AsyncIterable<ExportedTransaction>,
+  format: ExportFormat
+): AsyncGenerator<string> {
+  if (format === "csv") {
+    yield formatCsvRow(CSV_COLUMNS);
+    for await (const row of rows) {
+      yield formatCsvRow(CSV_COLUMNS.map((column) => row[column]));
+    }
+    return;
+  }
+
+  if (format === "ndjson") {
+    for await (const row of rows) {
+      yield `${JSON.stringify(row)}\n`;
+    }
+    return;
+  }
+
+  // A JSON array written element by element
+  let first = true;
+  yield "[";
+  for await (const row of rows) {
+    yield `${first ? "" : ","}\n${JSON.stringify(row)}`;
+    first = false;
+  }
+  yield "\n]\n";
+}
+
+/**
+ * Start an export. The Memgraph query runs before this resolves, so a failure can still be
+ * reported as a normal error response before any of the file has been sent.
+ * @returns The serialized export, to be piped to the response
+ */
+export const openTransactionExport = async (
+  filters: TransactionFilters,
+  format: ExportFormat
+): Promise<AsyncGenerator<string>> => {
+  const rows = streamTransactions(filters);
+  const first = await rows.next();
+
+  async function* resume(): AsyncGenerator<ExportedTransaction> {
+    if (first.done) return;
+    yield first.value;
+    yield* rows;
+  }
+  return serializeTransactions(resume(), format);
+};
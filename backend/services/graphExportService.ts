@@ -0,0 +1,197 @@
+import * as graphRepository from "../repositories/graphRepository";
+import * as graphService from "./graphService";
+import * as transactionService from "./transactionService";
+import {
+  EdgeFilters,
+  EnrichedNode,
+  GraphEdge,
+  GraphExportFormat,
+  TransactionFilters,
+} from "../types";
+
+export const GRAPH_EXPORT_CONTENT_TYPES: Record<GraphExportFormat, string> = {
+  graphml: "application/graphml+xml; charset=utf-8",
+  gexf: "application/gexf+xml; charset=utf-8",
+  cypher: "text/plain; charset=utf-8",
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+// JSON string escapes are valid in Cypher string literals
+const cypherString = (value: string): string => JSON.stringify(value);
+
+// Amounts are stored as floats, and a literal without a fraction or exponent would be read back as an integer.
+// Cypher exponents take no plus sign.
+const cypherFloat = (value: number): string => {
+  const literal = String(value).replace("e+", "e");
+  return /[.e]/.test(literal) ? literal : `${literal}.0`;
+};
+
+/**
+ * The graph reads an export is built from
+ */
+export interface GraphExportDependencies {
+  graphRepo: Pick<typeof graphRepository, "findAggregatedEdges" | "getAllNodes" | "streamEdges">;
+  enrichNodes: typeof graphService.enrichNodes;
+  resolveEdgeFilters: typeof transactionService.resolveEdgeFilters;
+}
+
+async function* serializeGraphml(
+  nodes: EnrichedNode[],
+  edges: GraphEdge[]
+): AsyncGenerator<string> {
+  yield '<?xml version="1.0" encoding="UTF-8"?>\n';
+  yield '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">\n';
+  yield '  <key id="name" for="node" attr.name="name" attr.type="string"/>\n';
+  yield '  <key id="industry" for="node" attr.name="industry" attr.type="string"/>\n';
+  yield '  <key id="transactionCount" for="edge" attr.name="transactionCount" attr.type="long"/>\n';
+  yield '  <key id="transactionAmount" for="edge" attr.name="transactionAmount" attr.type="double"/>\n';
+  yield '  <graph id="transactions" edgedefault="directed">\n';
+
+  for (const node of nodes) {
+    const data = [
+      node.name !== null ? `<data key="name">${escapeXml(node.name)}</data>` : "",
+      node.industry !== null
+        ? `<data key="industry">${escapeXml(node.industry)}</data>`
+        : "",
+    ].join("");
+    yield `    <node id="${escapeXml(node.id)}">${data}</node>\n`;
+  }
+  for (const edge of edges) {
+    yield `    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">` +
+      `<data key="transactionCount">${edge.transactionCount}</data>` +
+      `<data key="transactionAmount">${edge.transactionAmount}</data></edge>\n`;
+  }
+
+  yield "  </graph>\n</graphml>\n";
+}
+
+async function* serializeGexf(
+  nodes: EnrichedNode[],
+  edges: GraphEdge[]
+): AsyncGenerator<string> {
+  yield '<?xml version="1.0" encoding="UTF-8"?>\n';
+  yield '<gexf xmlns="http://gexf.net/1.3" version="1.3">\n';
+  yield `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}"><creator>Sayari</creator></meta>\n`;
+  yield '  <graph mode="static" defaultedgetype="directed">\n';
+  yield '    <attributes class="node">\n';
+  yield '      <attribute id="industry" title="industry" type="string"/>\n';
+  yield "    </attributes>\n";
+  yield '    <attributes class="edge">\n';
+  yield '      <attribute id="transactionCount" title="transactionCount" type="long"/>\n';
+  yield '      <attribute id="transactionAmount" title="transactionAmount" type="double"/>\n';
+  yield "    </attributes>\n";
+
+  yield "    <nodes>\n";
+  for (const node of nodes) {
+    const attvalues =
+      node.industry !== null
+        ? `<attvalues><attvalue for="industry" value="${escapeXml(node.industry)}"/></attvalues>`
+        : "";
+    yield `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.name ?? node.id)}">${attvalues}</node>\n`;
+  }
+  yield "    </nodes>\n";
+
+  // Gephi sizes edges by weight, so the total amount is used as the weight
+  yield "    <edges>\n";
+  for (const edge of edges) {
+    yield `      <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" weight="${edge.transactionAmount}">` +
+      `<attvalues><attvalue for="transactionCount" value="${edge.transactionCount}"/>` +
+      `<attvalue for="transactionAmount" value="${edge.transactionAmount}"/></attvalues></edge>\n`;
+  }
+  yield "    </edges>\n";
+
+  yield "  </graph>\n</gexf>\n";
+}
+
+/**
+ * Create the graph export around the graph reads it serializes
+ */
+export const createGraphExportService = ({
+  graphRepo,
+  enrichNodes,
+  resolveEdgeFilters,
+}: GraphExportDependencies) => {
+  /**
+   * Load the nodes and aggregated edges of the graph, or of the subgraph spanned by the
+   * transactions matching the filters. An unfiltered export also includes businesses without transactions.
+   */
+  const loadSubgraph = async (
+    filters: EdgeFilters
+  ): Promise<{ nodes: EnrichedNode[]; edges: GraphEdge[] }> => {
+    const filtered = Object.values(filters).some((value) => value !== undefined);
+    const edges = await graphRepo.findAggregatedEdges(filters);
+
+    let ids: string[];
+    if (filtered) {
+      const idSet = new Set<string>(filters.business ? [filters.business] : []);
+      edges.forEach((edge) => {
+        idSet.add(edge.source);
+        idSet.add(edge.target);
+      });
+      ids = Array.from(idSet);
+    } else {
+      ids = (await graphRepo.getAllNodes()).map((node) => node.id);
+    }
+
+    const nodeMap = await enrichNodes(ids);
+    const nodes = ids.sort().map((id) => nodeMap.get(id)!);
+    return { nodes, edges };
+  };
+
+  /**
+   * A Cypher script that recreates the nodes and individual transactions in an empty Memgraph.
+   * Every statement is a MERGE, so replaying it into a graph that already has the data is a no-op.
+   */
+  async function* serializeCypher(
+    nodes: EnrichedNode[],
+    filters: EdgeFilters
+  ): AsyncGenerator<string> {
+    yield `// Transaction graph snapshot generated ${new Date().toISOString()}\n`;
+    yield `// ${nodes.length} businesses; names and industries live in SQLite and are not part of the graph\n`;
+
+    for (const node of nodes) {
+      yield `MERGE (:Business {business_id: ${cypherString(node.id)}});\n`;
+    }
+    for await (const t of graphRepo.streamEdges(filters)) {
+      yield `MATCH (a:Business {business_id: ${cypherString(t.from)}}), (b:Business {business_id: ${cypherString(t.to)}}) ` +
+        `MERGE (a)-[t:TRANSACTION {id: ${cypherString(t.id)}}]->(b) ` +
+        `ON CREATE SET t.amount = ${cypherFloat(t.amount)}, t.timestamp = ${cypherString(t.timestamp)};\n`;
+    }
+  }
+
+  /**
+   * Serialize the graph, or the subgraph matching the filters, to GraphML, GEXF or a Cypher script.
+   * The graph is loaded before this resolves, so a failure can still be reported as a normal error response.
+   */
+  const openGraphExport = async (
+    filters: TransactionFilters,
+    format: GraphExportFormat
+  ): Promise<AsyncGenerator<string>> => {
+    const edgeFilters = await resolveEdgeFilters(filters);
+    const { nodes, edges } = await loadSubgraph(edgeFilters);
+
+    switch (format) {
+      case "graphml":
+        return serializeGraphml(nodes, edges);
+      case "gexf":
+        return serializeGexf(nodes, edges);
+      case "cypher":
+        return serializeCypher(nodes, edgeFilters);
+    }
+  };
+
+  return { openGraphExport };
+};
+
+export const { openGraphExport } = createGraphExportService({
+  graphRepo: graphRepository,
+  enrichNodes: (ids) => graphService.enrichNodes(ids),
+  resolveEdgeFilters: (filters) => transactionService.resolveEdgeFilters(filters),
+});
@@ -1,40 +1,164 @@
-import * as businessRepo from '../repositories/businessRepository';
-import * as graphRepo from '../repositories/graphRepository';
-import { GraphNode, GraphEdge } from '../types';
+import * as businessRepository from '../repositories/businessRepository';
+import * as graphRepository from '../repositories/graphRepository';
+import { GraphNode, GraphEdge, EnrichedNode, GraphDelta, GraphSnapshot, Transaction } from '../types';
+import { detectCommunities } from '../utils/communities';
 
 /**
- * Gets complete graph data
- * @returns Object containing nodes and edges for graph visualization
+ * The stores graph data is read from
  */
-export const getGraphData = async (): Promise<{ nodes: GraphNode[], edges: GraphEdge[] }> => {
-    const [nodes, edges] = await Promise.all( [ graphRepo.getAllNodes(), graphRepo.getAllEdges() ] );
-    return { nodes, edges };
-};
+export interface GraphServiceDependencies {
+    graphRepo: Pick<typeof graphRepository, 'getAllNodes' | 'getAllEdges' | 'findAggregatedEdges'>;
+    businessRepo: Pick<typeof businessRepository, 'getBusinessDetails'>;
+}
 
 /**
- * Gets complete graph data with enriched nodes
- * @returns Object containing enriched nodes and edges for graph visualization
+ * Create the graph service; it keeps the delta version and clusters of the graph clients were sent
  */
-export const getEnrichedGraphData = async (): Promise<{ nodes: GraphNode[], edges: GraphEdge[] }> => {
-    const [nodes, edges] = await Promise.all([
-        graphRepo.getAllNodes(),
-        graphRepo.getAllEdges()
-    ]);
-    
-    let enrichedNodes = nodes;
-    if (nodes && nodes.length > 0) {
-        const businessIds = nodes.map(node => node.id);
-        const { nameMap } = await businessRepo.getBusinessDetails(businessIds);
-        
-        enrichedNodes = nodes.map(node => ({
-            ...node,
-            label: nameMap[node.id]
-        }));
-    }
-    
+export const createGraphService = ({ graphRepo, businessRepo }: GraphServiceDependencies) => {
+    // Bumped for every graph delta sent to clients, so they can tell when they missed one
+    let graphVersion = 0;
+
+    // Deltas are built one at a time, so a delta with a higher version never holds older edge totals
+    let deltaQueue: Promise<unknown> = Promise.resolve();
+
+    // Cluster of each business in the last full graph, for nodes that arrive by delta
+    let clusters = new Map<string, number>();
+
+    /**
+     * Gets complete graph data
+     * @returns Object containing nodes and edges for graph visualization
+     */
+    const getGraphData = async (): Promise<{ nodes: GraphNode[], edges: GraphEdge[] }> => {
+        const [nodes, edges] = await Promise.all( [ graphRepo.getAllNodes(), graphRepo.getAllEdges() ] );
+        return { nodes, edges };
+    };
+
+    /**
+     * Gets complete graph data with enriched nodes
+     * @returns Object containing enriched nodes and edges for graph visualization
+     */
+    const getEnrichedGraphData = async (): Promise<{ nodes: GraphNode[], edges: GraphEdge[] }> => {
+        const [nodes, edges] = await Promise.all([
+            graphRepo.getAllNodes(),
+            graphRepo.getAllEdges()
+        ]);
+
+        let enrichedNodes = nodes;
+        if (nodes && nodes.length > 0) {
+            const businessIds = nodes.map(node => node.id);
+            const { nameMap } = await businessRepo.getBusinessDetails(businessIds);
+            clusters = detectCommunities(businessIds, edges);
+
+            enrichedNodes = nodes.map(node => ({
+                ...node,
+                label: nameMap[node.id],
+                clusterId: clusters.get(node.id)
+            }));
+        }
+
+        return {
+            nodes: enrichedNodes,
+            edges
+        };
+    };
+
+    /**
+     * Gets the version of the last graph delta
+     */
+    const getGraphVersion = (): number => graphVersion;
+
+    /**
+     * Gets complete graph data with enriched nodes, and the version of the last delta it includes
+     */
+    const getGraphSnapshot = async (): Promise<GraphSnapshot> => {
+        // Read first: a delta sent while the graph is loading may already be included, but never missed
+        const version = graphVersion;
+        const { nodes, edges } = await getEnrichedGraphData();
+        return { version, nodes, edges };
+    };
+
+    /**
+     * Builds the next graph delta for a transaction that was just written to Memgraph.
+     * previousVersion depends on the client, so it is added when the delta is sent.
+     * @param transaction - The transaction, with business IDs
+     * @param newTransaction - The same transaction as shown to clients, with business names
+     */
+    const getTransactionDelta = (
+        transaction: Transaction,
+        newTransaction: Transaction
+    ): Promise<Omit<GraphDelta, 'previousVersion'>> => {
+        const delta = deltaQueue.then(() => buildTransactionDelta(transaction, newTransaction));
+        deltaQueue = delta.catch(() => undefined);
+        return delta;
+    };
+
+    /**
+     * The cluster of a business that arrives by delta. A business that wasn't in the last full graph
+     * joins its counterparty's cluster, as label propagation would put it there, or else a new one.
+     */
+    const clusterFor = (id: string, counterparty: string): number => {
+        let clusterId = clusters.get(id) ?? clusters.get(counterparty);
+        if (clusterId === undefined) {
+            clusterId = clusters.size > 0 ? Math.max(...clusters.values()) + 1 : 0;
+        }
+        clusters.set(id, clusterId);
+        return clusterId;
+    };
+
+    /**
+     * Reads the current edge totals and business details for a delta and gives it the next version
+     */
+    const buildTransactionDelta = async (
+        transaction: Transaction,
+        newTransaction: Transaction
+    ): Promise<Omit<GraphDelta, 'previousVersion'>> => {
+        const [[edge], { nameMap, industryMap }] = await Promise.all([
+            graphRepo.findAggregatedEdges({ from: transaction.from, to: transaction.to }),
+            businessRepo.getBusinessDetails([transaction.from, transaction.to])
+        ]);
+        return {
+            version: ++graphVersion,
+            edge,
+            nodes: [
+                [transaction.from, transaction.to],
+                [transaction.to, transaction.from]
+            ].map(([id, counterparty]) => ({
+                id,
+                label: nameMap[id],
+                industry: industryMap[id] ?? null,
+                clusterId: clusterFor(id, counterparty)
+            })),
+            newTransaction
+        };
+    };
+
+    /**
+     * Look up names and industries for a set of business IDs
+     * @returns Map from business ID to node; businesses missing from SQLite get null attributes
+     */
+    const enrichNodes = async (ids: string[]): Promise<Map<string, EnrichedNode>> => {
+        const { nameMap, industryMap } = await businessRepo.getBusinessDetails(ids);
+        return new Map(ids.map(id => [
+            id,
+            { id, name: nameMap[id] ?? null, industry: industryMap[id] ?? null }
+        ]));
+    };
+
     return {
-        nodes: enrichedNodes,
-        edges
+        getGraphData,
+        getEnrichedGraphData,
+        getGraphVersion,
+        getGraphSnapshot,
+        getTransactionDelta,
+        enrichNodes
     };
 };
 
+export const {
+    getGraphData,
+    getEnrichedGraphData,
+    getGraphVersion,
+    getGraphSnapshot,
+    getTransactionDelta,
+    enrichNodes
+} = createGraphService({ graphRepo: graphRepository, businessRepo: businessRepository });
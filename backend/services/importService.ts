@@ -0,0 +1,349 @@
+import crypto from "crypto";
+import fs from "fs";
+import readline from "readline";
+import { v5 as uuidv5 } from "uuid";
+import * as businessRepository from "../repositories/businessRepository";
+import * as graphRepository from "../repositories/graphRepository";
+import * as importRepo from "../repositories/importRepository";
+import { invalidateMetrics } from "./metricsService";
+import { withConflictRetry } from "./outboxService";
+import * as riskService from "./riskService";
+import { parseCsv } from "../utils/csv";
+import { validate } from "../validation";
+import { importRowSchema } from "../validation/schemas";
+import {
+  ImportFormat,
+  ImportJob,
+  ImportRowDto,
+  ImportRowError,
+  Page,
+  Transaction,
+} from "../types";
+
+const BATCH_SIZE = 500;
+const MAX_RAW_LENGTH = 1000;
+// Namespace for transaction IDs derived from (file checksum, line), so re-importing a file never duplicates rows
+const IMPORT_ID_NAMESPACE = "3b0b6d52-6f0e-4f4c-9a53-0d6f6c1e8a27";
+
+/**
+ * Thrown when the same file is already being imported
+ */
+export class ImportInProgressError extends Error {
+  constructor(jobId: number) {
+    super(`Import job ${jobId} for this file is already running`);
+    this.name = "ImportInProgressError";
+  }
+}
+
+/**
+ * Where imported rows are resolved against and written to
+ */
+export interface ImportDependencies {
+  businessRepo: Pick<typeof businessRepository, "findAllBusinesses">;
+  graphRepo: Pick<typeof graphRepository, "createEdgesBatch">;
+  refreshRiskScores: () => void;
+}
+
+type SourceRecord = {
+  line: number;
+  raw: string;
+  record?: Record<string, unknown>;
+  error?: string;
+};
+
+/**
+ * Guess the file format from its name
+ */
+export const formatFromFileName = (fileName: string): ImportFormat | null => {
+  if (/\.csv$/i.test(fileName)) return "csv";
+  if (/\.(ndjson|jsonl)$/i.test(fileName)) return "ndjson";
+  return null;
+};
+
+const truncate = (raw: string): string =>
+  raw.length > MAX_RAW_LENGTH ? `${raw.slice(0, MAX_RAW_LENGTH)}...` : raw;
+
+/**
+ * SHA-256 of a file, used to recognise a file that is imported again
+ */
+const fileChecksum = async (filePath: string): Promise<string> => {
+  const hash = crypto.createHash("sha256");
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+};
+
+/**
+ * Read the records of a CSV file; the first record is the header
+ */
+async function* readCsv(filePath: string): AsyncGenerator<SourceRecord> {
+  let header: string[] | null = null;
+
+  for await (const { line, fields } of parseCsv(
+    fs.createReadStream(filePath, { encoding: "utf8" })
+  )) {
+    if (!header) {
+      header = fields.map((name) => name.replace(/^\uFEFF/, "").trim().toLowerCase());
+      continue;
+    }
+
+    const raw = fields.join(",");
+    if (fields.length !== header.length) {
+      yield {
+        line,
+        raw,
+        error: `expected ${header.length} columns but found ${fields.length}`,
+      };
+      continue;
+    }
+
+    const record: Record<string, unknown> = {};
+    header.forEach((name, index) => {
+      record[name] = fields[index];
+    });
+    yield { line, raw, record };
+  }
+}
+
+/**
+ * Read the records of an NDJSON file, one JSON object per line
+ */
+async function* readNdjson(filePath: string): AsyncGenerator<SourceRecord> {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: "utf8" }),
+    crlfDelay: Infinity,
+  });
+
+  let line = 0;
+  for await (const raw of lines) {
+    line++;
+    if (raw.trim() === "") continue;
+
+    try {
+      const record = JSON.parse(raw);
+      if (!record || typeof record !== "object" || Array.isArray(record)) {
+        yield { line, raw, error: "must be a JSON object" };
+      } else {
+        yield { line, raw, record };
+      }
+    } catch {
+      yield { line, raw, error: "is not valid JSON" };
+    }
+  }
+}
+
+/**
+ * Create the importer around the stores rows are resolved against and written to
+ */
+export const createImportService = ({
+  businessRepo,
+  graphRepo,
+  refreshRiskScores,
+}: ImportDependencies) => {
+  // Jobs being processed by this server, so a file can't be imported twice at once
+  const activeJobs = new Set<number>();
+
+  /**
+   * Resolve business references to IDs. A reference is tried as an ID first, then as a
+   * case-insensitive name; names shared by several businesses are rejected as ambiguous.
+   */
+  const buildBusinessResolver = async () => {
+    const businesses = await businessRepo.findAllBusinesses();
+    const ids = new Set(businesses.map((b) => b.business_id));
+    const idsByName = new Map<string, string[]>();
+    businesses.forEach((b) => {
+      const key = b.name.trim().toLowerCase();
+      idsByName.set(key, [...(idsByName.get(key) || []), b.business_id]);
+    });
+
+    return (reference: string): { id?: string; error?: string } => {
+      if (ids.has(reference)) return { id: reference };
+
+      const matches = idsByName.get(reference.toLowerCase()) || [];
+      if (matches.length === 1) return { id: matches[0] };
+      if (matches.length > 1) {
+        return { error: `business name "${reference}" is ambiguous` };
+      }
+      return { error: `unknown business "${reference}"` };
+    };
+  };
+
+  /**
+   * Find or create the job for a file. If an earlier import of the same file did not
+   * complete, that job is picked up again and resumes after the last committed row.
+   */
+  const prepareImport = async (
+    filePath: string,
+    format: ImportFormat,
+    source: string
+  ): Promise<ImportJob> => {
+    const checksum = await fileChecksum(filePath);
+    const existing = await importRepo.findResumableJob(checksum);
+
+    let job: ImportJob;
+    if (existing) {
+      if (activeJobs.has(existing.id)) {
+        throw new ImportInProgressError(existing.id);
+      }
+      await importRepo.markJobRunning(existing.id);
+      job = { ...existing, status: "running", error: null };
+    } else {
+      job = await importRepo.createJob(source, format, checksum);
+    }
+
+    activeJobs.add(job.id);
+    return job;
+  };
+
+  /**
+   * Validate and import the rows of a prepared job in batches. Each batch is written to
+   * Memgraph in one transaction and then recorded in SQLite together with its row errors.
+   * @returns The job after it completed or failed
+   */
+  const runImport = async (
+    job: ImportJob,
+    filePath: string
+  ): Promise<ImportJob> => {
+    let batch: (Transaction & { line: number })[] = [];
+    let errors: ImportRowError[] = [];
+    let lastLine = job.last_line;
+
+    const flush = async () => {
+      let imported = 0;
+      if (batch.length > 0) {
+        const rows = batch.map(({ line: _line, ...transaction }) => transaction);
+        const outcomes = new Map(
+          (await withConflictRetry(() => graphRepo.createEdgesBatch(rows))).map(
+            ({ id, conflict }) => [id, conflict]
+          )
+        );
+        imported = Array.from(outcomes.values()).filter((conflict) => !conflict).length;
+        if (imported > 0) invalidateMetrics();
+
+        batch.forEach(({ id, line }) => {
+          const conflict = outcomes.get(id);
+          if (conflict) {
+            errors.push({
+              line,
+              field: "id",
+              message: "is already used by a transaction between other businesses",
+              raw: null,
+            });
+          } else if (conflict === undefined) {
+            // A business can exist in SQLite but be missing from Memgraph until reconciliation runs
+            errors.push({
+              line,
+              field: "from",
+              message: "business is missing from the graph; run reconciliation",
+              raw: null,
+            });
+          }
+        });
+      }
+
+      await importRepo.recordProgress(job.id, lastLine, imported, errors);
+      batch = [];
+      errors = [];
+    };
+
+    try {
+      const resolveBusiness = await buildBusinessResolver();
+      const records = job.format === "csv" ? readCsv(filePath) : readNdjson(filePath);
+
+      for await (const { line, raw, record, error } of records) {
+        if (line <= job.last_line) continue;
+        lastLine = line;
+
+        const rowErrors: Omit<ImportRowError, "line" | "raw">[] = [];
+        if (error) {
+          rowErrors.push({ field: "row", message: error });
+        } else {
+          const { value, errors: fieldErrors } = validate(importRowSchema, record, {
+            coerce: true,
+          });
+          rowErrors.push(...fieldErrors);
+
+          if (fieldErrors.length === 0) {
+            const dto: ImportRowDto = value;
+            const from = resolveBusiness(dto.from);
+            const to = resolveBusiness(dto.to);
+            if (from.error) rowErrors.push({ field: "from", message: from.error });
+            if (to.error) rowErrors.push({ field: "to", message: to.error });
+
+            if (rowErrors.length === 0) {
+              batch.push({
+                id: dto.id ?? uuidv5(`${job.checksum}:${line}`, IMPORT_ID_NAMESPACE),
+                from: from.id!,
+                to: to.id!,
+                amount: dto.amount,
+                timestamp: dto.timestamp,
+                line,
+              });
+            }
+          }
+        }
+
+        rowErrors.forEach((rowError) =>
+          errors.push({ ...rowError, line, raw: truncate(raw) })
+        );
+        if (batch.length + errors.length >= BATCH_SIZE) {
+          await flush();
+        }
+      }
+
+      await flush();
+      await importRepo.markJobCompleted(job.id);
+    } catch (err) {
+      console.error(`Import job ${job.id} failed:`, (err as Error).message);
+      await importRepo.markJobFailed(job.id, (err as Error).message);
+    } finally {
+      activeJobs.delete(job.id);
+      // Imported rows don't pass through recordTransaction, so risk scores are recounted
+      refreshRiskScores();
+    }
+
+    return (await importRepo.findJobById(job.id))!;
+  };
+
+  /**
+   * Get an import job by ID
+   */
+  const getJob = async (id: number): Promise<ImportJob | null> => {
+    return await importRepo.findJobById(id);
+  };
+
+  /**
+   * Get the most recent import jobs
+   */
+  const getRecentJobs = async (limit: number): Promise<ImportJob[]> => {
+    return await importRepo.findRecentJobs(limit);
+  };
+
+  /**
+   * Get a page of a job's row errors
+   * @param after - ID of the last error on the previous page
+   */
+  const getJobErrors = async (
+    jobId: number,
+    after: number,
+    limit: number
+  ): Promise<Page<ImportRowError>> => {
+    const items = await importRepo.findErrors(jobId, after, limit);
+    const last = items[items.length - 1];
+    return {
+      items,
+      nextCursor: items.length === limit && last ? String(last.id) : null,
+      limit,
+    };
+  };
+
+  return { prepareImport, runImport, getJob, getRecentJobs, getJobErrors };
+};
+
+export const { prepareImport, runImport, getJob, getRecentJobs, getJobErrors } =
+  createImportService({
+    businessRepo: businessRepository,
+    graphRepo: graphRepository,
+    refreshRiskScores: () => riskService.refreshRiskScores(),
+  });
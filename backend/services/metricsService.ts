@@ -0,0 +1,273 @@
+import * as graphRepo from "../repositories/graphRepository";
+import { enrichNodes } from "./graphService";
+import {
+  BusinessMetricsReport,
+  CentralityMetrics,
+  MetricsQuery,
+  MetricsReport,
+  MetricsWeight,
+} from "../types";
+
+const DAMPING = 0.85;
+const MAX_PAGERANK_ITERATIONS = 100;
+const PAGERANK_TOLERANCE = 1e-9;
+const DEFAULT_METRICS_LIMIT = 25;
+
+interface MetricsSnapshot {
+  computedAt: string;
+  byBusiness: Map<string, CentralityMetrics>;
+}
+
+// Computed metrics per edge weight, dropped whenever the graph changes
+const cache = new Map<MetricsWeight, Promise<MetricsSnapshot>>();
+
+/**
+ * Drop the cached metrics; they are recomputed on the next request
+ */
+export const invalidateMetrics = (): void => {
+  cache.clear();
+};
+
+/**
+ * Weighted PageRank. Businesses without outgoing edges spread their rank evenly over all businesses.
+ * @param adjacency - Outgoing edges of each node as [target, weight] pairs
+ */
+const pageRank = (adjacency: [number, number][][]): number[] => {
+  const n = adjacency.length;
+  const outWeights = adjacency.map((edges) => edges.reduce((sum, [, w]) => sum + w, 0));
+  let ranks = new Array<number>(n).fill(1 / n);
+
+  for (let iteration = 0; iteration < MAX_PAGERANK_ITERATIONS; iteration++) {
+    let dangling = 0;
+    ranks.forEach((rank, u) => {
+      if (outWeights[u] === 0) dangling += rank;
+    });
+
+    const next = new Array<number>(n).fill((1 - DAMPING) / n + (DAMPING * dangling) / n);
+    adjacency.forEach((edges, u) => {
+      if (outWeights[u] === 0) return;
+      edges.forEach(([v, w]) => {
+        next[v] += (DAMPING * ranks[u] * w) / outWeights[u];
+      });
+    });
+
+    const change = next.reduce((sum, rank, i) => sum + Math.abs(rank - ranks[i]), 0);
+    ranks = next;
+    if (change < PAGERANK_TOLERANCE) break;
+  }
+  return ranks;
+};
+
+/**
+ * Min-heap of [distance, node] pairs for Dijkstra
+ */
+class DistanceHeap {
+  private items: [number, number][] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: [number, number]): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent][0] <= items[i][0]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): [number, number] {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left][0] < items[smallest][0]) smallest = left;
+        if (right < items.length && items[right][0] < items[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Brandes' betweenness centrality on the directed graph. A heavier edge is a stronger tie,
+ * so an edge's length is the inverse of its weight. Normalized to 0-1.
+ */
+const betweenness = (adjacency: [number, number][][]): number[] => {
+  const n = adjacency.length;
+  const centrality = new Array<number>(n).fill(0);
+  const epsilon = 1e-12;
+
+  for (let s = 0; s < n; s++) {
+    const order: number[] = [];
+    const predecessors: number[][] = Array.from({ length: n }, () => []);
+    const paths = new Array<number>(n).fill(0);
+    const distance = new Array<number>(n).fill(Infinity);
+    const settled = new Array<boolean>(n).fill(false);
+    paths[s] = 1;
+    distance[s] = 0;
+
+    const heap = new DistanceHeap();
+    heap.push([0, s]);
+    while (heap.size > 0) {
+      const [d, u] = heap.pop();
+      if (settled[u]) continue;
+      settled[u] = true;
+      order.push(u);
+
+      for (const [v, w] of adjacency[u]) {
+        const candidate = d + 1 / w;
+        if (candidate < distance[v] - epsilon) {
+          distance[v] = candidate;
+          paths[v] = paths[u];
+          predecessors[v] = [u];
+          heap.push([candidate, v]);
+        } else if (Math.abs(candidate - distance[v]) <= epsilon) {
+          paths[v] += paths[u];
+          predecessors[v].push(u);
+        }
+      }
+    }
+
+    // Accumulate dependencies from the farthest node back towards the source
+    const dependency = new Array<number>(n).fill(0);
+    for (let i = order.length - 1; i >= 0; i--) {
+      const v = order[i];
+      for (const u of predecessors[v]) {
+        dependency[u] += (paths[u] / paths[v]) * (1 + dependency[v]);
+      }
+      if (v !== s) centrality[v] += dependency[v];
+    }
+  }
+
+  const pairs = (n - 1) * (n - 2);
+  return pairs > 0 ? centrality.map((value) => value / pairs) : centrality;
+};
+
+/**
+ * Compute every metric for every business over the aggregated transaction graph
+ */
+const computeMetrics = async (weight: MetricsWeight): Promise<MetricsSnapshot> => {
+  const [nodes, edges] = await Promise.all([
+    graphRepo.getAllNodes(),
+    graphRepo.getAllEdges(),
+  ]);
+
+  const ids = Array.from(
+    new Set([
+      ...nodes.map((node) => node.id),
+      ...edges.flatMap((edge) => [edge.source, edge.target]),
+    ])
+  );
+  const index = new Map(ids.map((id, i) => [id, i]));
+  const adjacency: [number, number][][] = ids.map(() => []);
+  const inDegree = new Array<number>(ids.length).fill(0);
+  const inWeight = new Array<number>(ids.length).fill(0);
+  const outWeight = new Array<number>(ids.length).fill(0);
+
+  edges.forEach((edge) => {
+    const w = weight === "count" ? edge.transactionCount : edge.transactionAmount;
+    if (w <= 0 || edge.source === edge.target) return;
+    const u = index.get(edge.source)!;
+    const v = index.get(edge.target)!;
+    adjacency[u].push([v, w]);
+    inDegree[v]++;
+    inWeight[v] += w;
+    outWeight[u] += w;
+  });
+
+  const ranks = pageRank(adjacency);
+  const between = betweenness(adjacency);
+
+  return {
+    computedAt: new Date().toISOString(),
+    byBusiness: new Map(
+      ids.map((id, i) => [
+        id,
+        {
+          business_id: id,
+          pageRank: ranks[i],
+          betweenness: between[i],
+          inDegree: inDegree[i],
+          outDegree: adjacency[i].length,
+          inWeight: inWeight[i],
+          outWeight: outWeight[i],
+        },
+      ])
+    ),
+  };
+};
+
+/**
+ * The metrics for a weight, computed at most once between graph changes
+ */
+const getSnapshot = (weight: MetricsWeight): Promise<MetricsSnapshot> => {
+  let snapshot = cache.get(weight);
+  if (!snapshot) {
+    snapshot = computeMetrics(weight);
+    cache.set(weight, snapshot);
+    // Don't keep a failure around; the next request tries again
+    snapshot.catch(() => {
+      if (cache.get(weight) === snapshot) cache.delete(weight);
+    });
+  }
+  return snapshot;
+};
+
+/**
+ * Get the businesses ranked highest by one metric
+ */
+export const getTopMetrics = async (query: MetricsQuery): Promise<MetricsReport> => {
+  const { weight = "amount", sort = "pageRank", limit = DEFAULT_METRICS_LIMIT } = query;
+  const snapshot = await getSnapshot(weight);
+
+  const top = Array.from(snapshot.byBusiness.values())
+    .sort((a, b) => b[sort] - a[sort] || a.business_id.localeCompare(b.business_id))
+    .slice(0, limit);
+  const nodes = await enrichNodes(top.map((metrics) => metrics.business_id));
+
+  return {
+    weight,
+    sort,
+    computedAt: snapshot.computedAt,
+    businessCount: snapshot.byBusiness.size,
+    metrics: top.map((metrics) => ({
+      ...metrics,
+      business: nodes.get(metrics.business_id)!,
+    })),
+  };
+};
+
+/**
+ * Get the metrics of one business
+ * @returns The metrics, or null if the business is not in the graph
+ */
+export const getBusinessMetrics = async (
+  businessId: string,
+  weight: MetricsWeight = "amount"
+): Promise<BusinessMetricsReport | null> => {
+  const snapshot = await getSnapshot(weight);
+  const metrics = snapshot.byBusiness.get(businessId);
+  if (!metrics) return null;
+
+  const nodes = await enrichNodes([businessId]);
+  return {
+    ...metrics,
+    business: nodes.get(businessId)!,
+    weight,
+    computedAt: snapshot.computedAt,
+  };
+};
@@ -0,0 +1,57 @@
+import * as businessRepo from "../repositories/businessRepository";
+import * as graphRepo from "../repositories/graphRepository";
+import { GraphEdge, Neighborhood, NeighborhoodQuery } from "../types";
+
+const DEFAULT_HOPS = 2;
+const DEFAULT_MAX_NODES = 500;
+
+/**
+ * Expand outwards from the seed businesses one hop at a time, following transactions in either
+ * direction. When maxNodes doesn't leave room for every business reached in a hop, the ones with
+ * the most volume to the businesses already included are kept.
+ */
+export const getNeighborhood = async (query: NeighborhoodQuery): Promise<Neighborhood> => {
+  const { seeds, hops = DEFAULT_HOPS, maxNodes = DEFAULT_MAX_NODES, ...constraints } = query;
+
+  const hopOf = new Map<string, number>();
+  seeds.slice(0, maxNodes).forEach((id) => hopOf.set(id, 0));
+  let truncated = seeds.length > maxNodes;
+
+  // Every included business is in exactly one frontier, so fetching the edges of each
+  // frontier (the last one included) finds every edge between included businesses
+  const edges = new Map<string, GraphEdge>();
+  let frontier = Array.from(hopOf.keys());
+  for (let hop = 1; frontier.length > 0; hop++) {
+    const found = await graphRepo.findAggregatedEdges({ ...constraints, businessIds: frontier });
+    found.forEach((edge) => edges.set(`${edge.source}>${edge.target}`, edge));
+    if (hop > hops) break;
+
+    const reached = new Map<string, number>();
+    found.forEach((edge) => {
+      [edge.source, edge.target]
+        .filter((id) => !hopOf.has(id))
+        .forEach((id) => reached.set(id, (reached.get(id) ?? 0) + edge.transactionAmount));
+    });
+
+    const room = maxNodes - hopOf.size;
+    if (reached.size > room) truncated = true;
+    frontier = Array.from(reached)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, room)
+      .map(([id]) => id);
+    frontier.forEach((id) => hopOf.set(id, hop));
+  }
+
+  const ids = Array.from(hopOf.keys());
+  const { nameMap } = await businessRepo.getBusinessDetails(ids);
+
+  return {
+    seeds,
+    hops,
+    nodes: ids.map((id) => ({ id, label: nameMap[id], hop: hopOf.get(id)! })),
+    edges: Array.from(edges.values())
+      .filter((edge) => hopOf.has(edge.source) && hopOf.has(edge.target))
+      .sort((a, b) => a.source.localeCompare(b.source) || a.target.localeCompare(b.target)),
+    truncated,
+  };
+};
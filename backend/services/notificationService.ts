@@ -1,19 +1,189 @@
-import { Server } from 'socket.io';
+import { Server, Socket } from 'socket.io';
+import * as businessRepo from '../repositories/businessRepository';
 import * as graphService from './graphService';
-import { Transaction } from '../types';
+import { eventsSince, getEventPosition, recordEvent } from './eventLogService';
+import { socketsForTransaction, wantsTransaction } from './subscriptionService';
+import {
+    Alert,
+    Business,
+    BusinessDeletedPayload,
+    EventLogEntry,
+    GraphDelta,
+    ImportJob,
+    RiskUpdatedPayload,
+    StructuringDetection,
+    Transaction,
+    TransactionWithIndustries
+} from '../types';
 
 /**
- * Emits a graph update event to all connected Socket.IO clients
+ * Sends a logged event to one client, followed by its position in the event log
+ * @param {Socket} socket - The client
+ * @param {EventLogEntry} entry - The event
+ */
+const deliverEvent = (socket: Socket, entry: EventLogEntry): void => {
+    let payload = entry.payload;
+
+    // Each client learns which version it last saw, so deltas filtered out by its subscriptions don't look like a gap
+    if (entry.event === 'graphDelta') {
+        const delta = entry.payload as Omit<GraphDelta, 'previousVersion'>;
+        payload = { ...delta, previousVersion: socket.data.graphVersion ?? delta.version - 1 };
+        socket.data.graphVersion = delta.version;
+    }
+
+    socket.emit(entry.event, payload, { epoch: getEventPosition().epoch, seq: entry.seq });
+};
+
+/**
+ * Records an event in the event log and sends it to all connected Socket.IO clients
+ * @param {Server} io - Socket.IO instance
+ * @param {string} event - Event name
+ * @param {unknown} payload - Event payload
+ * @param {TransactionWithIndustries} [scope] - The transaction the event is about; only clients whose subscriptions match it get the event
+ */
+const broadcast = (io: Server, event: string, payload: unknown, scope?: TransactionWithIndustries): void => {
+    const entry = recordEvent(event, payload, scope);
+    const sockets = scope ? socketsForTransaction(io, scope) : Array.from(io.sockets.sockets.values());
+    sockets.forEach(socket => deliverEvent(socket, entry));
+};
+
+/**
+ * Sends a reconnecting client the events it missed, or tells it to resync if they are no longer in the event log
+ * @param {Socket} socket - The reconnected client, with its subscriptions restored so only matching events are replayed
+ * @param {string} epoch - Epoch of the last event the client received
+ * @param {number} lastSeq - Sequence number of the last event the client received
+ * @param {number} [graphVersion] - Version of the last graph delta the client applied
+ * @returns Whether the events were replayed
+ */
+export const replayMissedEvents = (
+    socket: Socket,
+    epoch: string,
+    lastSeq: number,
+    graphVersion?: number
+): boolean => {
+    const missed = eventsSince(epoch, lastSeq);
+    if (!missed) {
+        socket.emit('resync', getEventPosition());
+        return false;
+    }
+
+    socket.data.graphVersion = graphVersion;
+    missed
+        .filter(entry => !entry.scope || wantsTransaction(socket, entry.scope))
+        .forEach(entry => deliverEvent(socket, entry));
+    return true;
+};
+
+/**
+ * Emits the graph delta of a new transaction to the Socket.IO clients whose subscriptions match it
+ * @param {Server | undefined} io - Socket.IO instance
+ * @param {Transaction} transaction - The new transaction, with business IDs
+ * @param {Transaction} transactionDetails - The new transaction, with business names
+ */
+export const emitGraphDelta = async (
+    io: Server | undefined,
+    transaction: Transaction,
+    transactionDetails: Transaction
+): Promise<void> => {
+    if (!io) return;
+
+    const delta = await graphService.getTransactionDelta(transaction, transactionDetails);
+    const industries = new Map(delta.nodes.map(node => [node.id, node.industry ?? null]));
+    const scoped = {
+        ...transaction,
+        fromIndustry: industries.get(transaction.from) ?? null,
+        toIndustry: industries.get(transaction.to) ?? null
+    };
+
+    broadcast(io, 'graphDelta', delta, scoped);
+};
+
+/**
+ * Emits a business update event to all connected Socket.IO clients
+ * @param {Server | undefined} io - Socket.IO instance
+ * @param {Business} business - The business after the update
+ */
+export const emitBusinessUpdated = (io: Server | undefined, business: Business): void => {
+    if (!io) return;
+
+    broadcast(io, 'businessUpdated', business);
+};
+
+/**
+ * Emits a business deletion event to all connected Socket.IO clients
+ * @param {Server | undefined} io - Socket.IO instance
+ * @param {BusinessDeletedPayload} payload - The deleted business ID and how many transactions went with it
+ */
+export const emitBusinessDeleted = (io: Server | undefined, payload: BusinessDeletedPayload): void => {
+    if (!io) return;
+
+    broadcast(io, 'businessDeleted', payload);
+};
+
+/**
+ * Emits an import completion event to all connected Socket.IO clients
+ * @param {Server | undefined} io - Socket.IO instance
+ * @param {ImportJob} job - The finished import job
+ */
+export const emitImportCompleted = (io: Server | undefined, job: ImportJob): void => {
+    if (!io) return;
+
+    broadcast(io, 'importCompleted', job);
+};
+
+/**
+ * Emits a structuring alert to all connected Socket.IO clients
  * @param {Server | undefined} io - Socket.IO instance
- * @param {Transaction} transactionDetails - Details of the new transaction
+ * @param {StructuringDetection} detection - The pattern a new transaction completed
  */
-export const emitGraphUpdate = async (io: Server | undefined, transactionDetails: Transaction): Promise<void> => {
+export const emitStructuringAlert = (io: Server | undefined, detection: StructuringDetection): void => {
     if (!io) return;
-    
-    const { nodes, edges } = await graphService.getEnrichedGraphData();
-    io.emit('graphUpdate', { 
-        nodes, 
-        edges,
-        newTransaction: transactionDetails
-    });
-};
\ No newline at end of file
+
+    broadcast(io, 'structuringAlert', detection);
+};
+
+/**
+ * Emits an alert raised by an alert rule to the Socket.IO clients whose subscriptions match its transaction
+ * @param {Server | undefined} io - Socket.IO instance
+ * @param {Alert} alert - The stored alert
+ */
+export const emitAlert = async (io: Server | undefined, alert: Alert): Promise<void> => {
+    if (!io) return;
+
+    const { from, to } = alert.transaction;
+    const { industryMap } = await businessRepo.getBusinessDetails([from, to]);
+    const scoped = {
+        ...alert.transaction,
+        fromIndustry: industryMap[from] ?? null,
+        toIndustry: industryMap[to] ?? null
+    };
+    broadcast(io, 'alert', alert, scoped);
+};
+
+/**
+ * Emits updated risk scores to all connected Socket.IO clients
+ * @param {Server | undefined} io - Socket.IO instance
+ * @param {RiskUpdatedPayload[]} updates - The businesses whose scores changed
+ */
+export const emitRiskUpdated = (io: Server | undefined, updates: RiskUpdatedPayload[]): void => {
+    if (!io || updates.length === 0) return;
+
+    broadcast(io, 'riskUpdated', updates);
+};
+
+/**
+ * The room of the clients authenticated with an API key
+ * @param {number} keyId - ID of the API key
+ */
+export const apiKeyRoom = (keyId: number): string => `api-key:${keyId}`;
+
+/**
+ * Disconnects the clients authenticated with an API key, e.g. after it was revoked
+ * @param {Server | undefined} io - Socket.IO instance
+ * @param {number} keyId - ID of the API key
+ */
+export const disconnectApiKey = (io: Server | undefined, keyId: number): void => {
+    if (!io) return;
+
+    io.in(apiKeyRoom(keyId)).disconnectSockets(true);
+};
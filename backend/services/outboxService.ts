@@ -0,0 +1,241 @@
+import * as outboxRepo from "../repositories/outboxRepository";
+import * as graphRepository from "../repositories/graphRepository";
+import * as businessRepository from "../repositories/businessRepository";
+import { invalidateMetrics } from "./metricsService";
+import * as riskService from "./riskService";
+import { Business, BusinessDeletedPayload, OutboxEvent, Transaction } from "../types";
+
+const MAX_ATTEMPTS = 10;
+const MAX_CONFLICT_RETRIES = 3;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 50;
+// Longer than an event can take to apply, including conflict retries
+const CLAIM_MS = 5 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL_MS =
+  Number(process.env.OUTBOX_POLL_INTERVAL_MS) || 2000;
+
+/**
+ * Called for events applied by the dispatcher rather than the request that created them,
+ * which has already published the outcome
+ */
+export interface OutboxHandlers {
+  onTransactionApplied?: (transaction: Transaction) => Promise<void>;
+  onBusinessDeleted?: (payload: BusinessDeletedPayload) => void;
+  // A delete the graph refused, after the business row was put back
+  onBusinessRestored?: (business: Business) => void;
+}
+
+/**
+ * What applying an event writes to besides the outbox itself
+ */
+export interface OutboxDependencies {
+  graphRepo: Pick<typeof graphRepository, "createOrFindNode" | "deleteNode" | "createEdge">;
+  businessRepo: Pick<typeof businessRepository, "restoreBusiness">;
+  refreshRiskScores: () => void;
+}
+
+/**
+ * Retry a Memgraph write that was aborted by a conflicting concurrent transaction
+ */
+export const withConflictRetry = async <T>(write: () => Promise<T>): Promise<T> => {
+  for (let attempt = 0; attempt <= MAX_CONFLICT_RETRIES; attempt++) {
+    try {
+      return await write();
+    } catch (err: any) {
+      const msg = String(err?.message || "");
+      const retryable =
+        msg.includes("conflicting transactions") ||
+        msg.includes("Retry this transaction");
+      if (!retryable || attempt === MAX_CONFLICT_RETRIES) throw err;
+
+      const backoff = Math.min(100 * 2 ** attempt + Math.random() * 50, 1000);
+      await new Promise((r) => setTimeout(r, backoff));
+    }
+  }
+  throw new Error("unreachable");
+};
+
+/**
+ * Create the outbox dispatcher around the stores events are applied to
+ */
+export const createOutboxService = ({
+  graphRepo,
+  businessRepo,
+  refreshRiskScores,
+}: OutboxDependencies) => {
+  let pollTimer: NodeJS.Timeout | undefined;
+  let polling = false;
+
+  /**
+   * Apply a single outbox event to Memgraph. Every operation is idempotent,
+   * so an event that is applied twice (e.g. after a crash) leaves the graph unchanged.
+   */
+  const applyEvent = async (event: OutboxEvent): Promise<unknown> => {
+    switch (event.operation) {
+      case "upsert_business":
+        return withConflictRetry(() =>
+          graphRepo.createOrFindNode(event.payload.business_id)
+        );
+      case "delete_business": {
+        const { business_id, cascade = true, business } = event.payload;
+        const outcome = await withConflictRetry(() =>
+          graphRepo.deleteNode(business_id, cascade)
+        );
+        if (!outcome.deleted && business) {
+          await businessRepo.restoreBusiness(business);
+        }
+        // Risk scores can't subtract a business's transactions, so they are recounted
+        if (outcome.deleted && outcome.transactionCount > 0) {
+          refreshRiskScores();
+        }
+        return outcome;
+      }
+      case "create_transaction": {
+        const { id, from, to, amount, timestamp, idempotencyKey } =
+          event.payload;
+        const transaction = await withConflictRetry(() =>
+          graphRepo.createEdge(id, from, to, amount, timestamp, idempotencyKey)
+        );
+        if (!transaction) {
+          throw new Error(
+            `Businesses ${from} and/or ${to} do not exist in Memgraph yet`
+          );
+        }
+        return transaction;
+      }
+    }
+  };
+
+  /**
+   * Apply an event and record the outcome in the outbox. The event is claimed first, so of the
+   * request handler and the poller, which may both hold a copy of it, only one applies it.
+   * @returns Whether this call applied the event, and the operation's result if it did
+   */
+  const processEvent = async (
+    event: OutboxEvent
+  ): Promise<{ applied: boolean; result?: unknown; error?: string }> => {
+    if (!(await outboxRepo.claimEvent(event.id, CLAIM_MS))) {
+      return { applied: false, error: "Event is already being processed" };
+    }
+
+    try {
+      const result = await applyEvent(event);
+      invalidateMetrics();
+      await outboxRepo.markEventDone(event.id);
+      return { applied: true, result };
+    } catch (error) {
+      const message = (error as Error).message;
+      const attempts = event.attempts + 1;
+      const status = attempts >= MAX_ATTEMPTS ? "failed" : "pending";
+      const backoff = Math.min(1000 * 2 ** attempts, MAX_BACKOFF_MS);
+
+      console.error(
+        `Outbox event ${event.id} (${event.operation}) failed on attempt ${attempts}:`,
+        message
+      );
+      await outboxRepo.markEventFailed(
+        event.id,
+        attempts,
+        message,
+        status,
+        Date.now() + backoff
+      );
+      return { applied: false, error: message };
+    }
+  };
+
+  /**
+   * Immediately try to apply one event, e.g. right after the request that enqueued it.
+   * If Memgraph is unavailable the event stays pending and the dispatcher retries it.
+   * @returns applied: whether this call applied the event; done: whether it has been applied by anyone
+   */
+  const dispatchEvent = async (
+    eventId: number
+  ): Promise<{ applied: boolean; done: boolean; result?: unknown; error?: string }> => {
+    const event = await outboxRepo.findEventById(eventId);
+    if (!event) {
+      return { applied: false, done: false, error: `Outbox event ${eventId} not found` };
+    }
+    if (event.status === "done") {
+      return { applied: false, done: true };
+    }
+    const outcome = await processEvent(event);
+    return { ...outcome, done: outcome.applied };
+  };
+
+  /**
+   * Apply every pending event that is due, oldest first
+   * @returns Number of events applied
+   */
+  const dispatchPending = async (handlers: OutboxHandlers = {}): Promise<number> => {
+    let applied = 0;
+    const events = await outboxRepo.findDueEvents(BATCH_SIZE);
+
+    for (const event of events) {
+      const outcome = await processEvent(event);
+      if (!outcome.applied) continue;
+
+      applied++;
+      if (event.operation === "create_transaction" && handlers.onTransactionApplied) {
+        await handlers.onTransactionApplied(outcome.result as Transaction).catch((err) =>
+          console.error("Error publishing outbox transaction:", err)
+        );
+      }
+      if (event.operation === "delete_business") {
+        const { business_id, business } = event.payload;
+        const { deleted, transactionCount } = outcome.result as {
+          deleted: boolean;
+          transactionCount: number;
+        };
+        if (deleted) {
+          handlers.onBusinessDeleted?.({ business_id, removedTransactions: transactionCount });
+        } else if (business) {
+          const { name, industry } = business;
+          handlers.onBusinessRestored?.({ business_id, name, industry });
+        }
+      }
+    }
+
+    return applied;
+  };
+
+  /**
+   * Start polling the outbox in the background
+   * @param handlers - Publish the outcome of events applied by the dispatcher
+   */
+  const startOutboxDispatcher = (
+    handlers: OutboxHandlers = {},
+    intervalMs: number = DEFAULT_POLL_INTERVAL_MS
+  ): void => {
+    if (pollTimer) return;
+
+    pollTimer = setInterval(() => {
+      if (polling) return;
+      polling = true;
+      dispatchPending(handlers)
+        .catch((err) => console.error("Outbox dispatcher error:", err))
+        .finally(() => {
+          polling = false;
+        });
+    }, intervalMs);
+  };
+
+  /**
+   * Stop the background outbox dispatcher
+   */
+  const stopOutboxDispatcher = (): void => {
+    if (pollTimer) {
+      clearInterval(pollTimer);
+      pollTimer = undefined;
+    }
+  };
+
+  return { dispatchEvent, dispatchPending, startOutboxDispatcher, stopOutboxDispatcher };
+};
+
+export const { dispatchEvent, dispatchPending, startOutboxDispatcher, stopOutboxDispatcher } =
+  createOutboxService({
+    graphRepo: graphRepository,
+    businessRepo: businessRepository,
+    refreshRiskScores: () => riskService.refreshRiskScores(),
+  });
@@ -0,0 +1,153 @@
+import * as graphRepository from "../repositories/graphRepository";
+import * as graphService from "./graphService";
+import { enumerateSimplePaths } from "../utils/simplePaths";
+import {
+  BusinessPath,
+  PathConstraints,
+  PathDirection,
+  PathQuery,
+  PathSearchResult,
+} from "../types";
+
+const DEFAULT_MAX_HOPS = 4;
+const DEFAULT_PATH_LIMIT = 25;
+const MAX_TRANSACTIONS_PER_STEP = 20;
+
+/**
+ * The graph reads a path search needs
+ */
+export interface PathServiceDependencies {
+  graphRepo: Pick<
+    typeof graphRepository,
+    "findShortestPathLength" | "findNextHops" | "findHopTransactions"
+  >;
+  enrichNodes: typeof graphService.enrichNodes;
+}
+
+export const createPathService = ({ graphRepo, enrichNodes }: PathServiceDependencies) => {
+  /**
+   * Load the business adjacency around a business, one query per hop
+   * @returns Businesses reachable in one hop from each business within maxHops - 1 hops of from
+   */
+  const loadAdjacency = async (
+    from: string,
+    to: string,
+    maxHops: number,
+    direction: PathDirection,
+    constraints: PathConstraints
+  ): Promise<Map<string, string[]>> => {
+    const adjacency = new Map<string, string[]>();
+    const reached = new Set([from, to]);
+    let frontier = [from];
+
+    // Paths end at the target, so it is never expanded
+    for (let hop = 0; hop < maxHops && frontier.length > 0; hop++) {
+      const pairs = await graphRepo.findNextHops(frontier, direction, constraints);
+      frontier = [];
+      pairs.forEach(({ from: source, to: target }) => {
+        const targets = adjacency.get(source);
+        if (targets) targets.push(target);
+        else adjacency.set(source, [target]);
+        if (!reached.has(target)) {
+          reached.add(target);
+          frontier.push(target);
+        }
+      });
+    }
+
+    adjacency.forEach((targets) => targets.sort());
+    return adjacency;
+  };
+
+  /**
+   * Find how two businesses are connected through transactions.
+   * "shortest" returns every path of the minimum number of hops; "all" returns
+   * simple paths up to maxHops, shortest first. Every transaction on a path must
+   * satisfy the time window and minimum amount.
+   */
+  const findPaths = async (query: PathQuery): Promise<PathSearchResult> => {
+    const {
+      from,
+      to,
+      mode = "shortest",
+      maxHops = DEFAULT_MAX_HOPS,
+      direction = "outgoing",
+      limit = DEFAULT_PATH_LIMIT,
+    } = query;
+    const constraints: PathConstraints = {
+      startDate: query.startDate,
+      endDate: query.endDate,
+      minAmount: query.minAmount,
+    };
+
+    let minHops = 1;
+    if (mode === "shortest") {
+      const shortest = await graphRepo.findShortestPathLength(
+        from,
+        to,
+        maxHops,
+        direction,
+        constraints
+      );
+      if (shortest === null) {
+        return { from, to, mode, direction, paths: [], truncated: false };
+      }
+      minHops = shortest;
+    }
+
+    const pathHops = mode === "shortest" ? minHops : maxHops;
+    const adjacency = await loadAdjacency(from, to, pathHops, direction, constraints);
+    const { paths: idPaths, truncated } = enumerateSimplePaths(
+      adjacency,
+      from,
+      to,
+      minHops,
+      pathHops,
+      limit
+    );
+
+    // Fetch the transactions of every distinct hop in one query
+    const hopKeys = new Map<string, { from: string; to: string }>();
+    const businessIds = new Set<string>();
+    idPaths.forEach((ids) => {
+      ids.forEach((id) => businessIds.add(id));
+      for (let i = 0; i < ids.length - 1; i++) {
+        hopKeys.set(`${ids[i]}>${ids[i + 1]}`, { from: ids[i], to: ids[i + 1] });
+      }
+    });
+
+    const [hopTransactions, nodes] = await Promise.all([
+      graphRepo.findHopTransactions(
+        Array.from(hopKeys.values()),
+        direction,
+        constraints,
+        MAX_TRANSACTIONS_PER_STEP
+      ),
+      enrichNodes(Array.from(businessIds)),
+    ]);
+
+    const paths: BusinessPath[] = idPaths.map((ids) => ({
+      hops: ids.length - 1,
+      nodes: ids.map((id) => nodes.get(id)!),
+      steps: ids.slice(0, -1).map((stepFrom, i) => {
+        const hop = hopTransactions.get(`${stepFrom}>${ids[i + 1]}`);
+        return {
+          from: stepFrom,
+          to: ids[i + 1],
+          transactionCount: hop?.count ?? 0,
+          totalAmount: hop?.total ?? 0,
+          transactions: hop?.transactions ?? [],
+        };
+      }),
+    }));
+
+    return { from, to, mode, direction, paths, truncated };
+  };
+
+  return { findPaths };
+};
+
+export const { findPaths } = createPathService({
+  graphRepo: graphRepository,
+  enrichNodes: (ids) => graphService.enrichNodes(ids),
+});
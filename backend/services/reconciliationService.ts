@@ -0,0 +1,233 @@
+import * as businessRepository from "../repositories/businessRepository";
+import * as graphRepository from "../repositories/graphRepository";
+import * as outboxRepo from "../repositories/outboxRepository";
+import * as outboxService from "./outboxService";
+import {
+  DriftReport,
+  FailedOutboxPolicy,
+  MissingInGraphPolicy,
+  OrphanNodePolicy,
+  OutboxOperation,
+  ReconciliationPolicy,
+  RepairResult,
+} from "../types";
+
+const MISSING_IN_GRAPH_POLICIES: MissingInGraphPolicy[] = ["create", "ignore"];
+const ORPHAN_NODE_POLICIES: OrphanNodePolicy[] = [
+  "ignore",
+  "delete",
+  "delete_if_isolated",
+  "import",
+];
+const FAILED_OUTBOX_POLICIES: FailedOutboxPolicy[] = ["retry", "ignore"];
+const MAX_REPORTED_FAILED_EVENTS = 100;
+
+/**
+ * Thrown when a repair policy contains an unknown value
+ */
+export class InvalidPolicyError extends Error {
+  constructor(field: string, value: unknown, allowed: string[]) {
+    super(`Invalid ${field} policy "${value}"; expected one of ${allowed.join(", ")}`);
+    this.name = "InvalidPolicyError";
+  }
+}
+
+const pickPolicy = <T extends string>(
+  field: string,
+  value: unknown,
+  allowed: T[],
+  fallback: T
+): T => {
+  if (value === undefined || value === null || value === "") return fallback;
+  if (!allowed.includes(value as T)) {
+    throw new InvalidPolicyError(field, value, allowed);
+  }
+  return value as T;
+};
+
+/**
+ * Build the repair policy from explicit overrides, falling back to the
+ * RECONCILE_* environment variables and then to conservative defaults
+ */
+export const resolvePolicy = (
+  overrides: Partial<Record<keyof ReconciliationPolicy, unknown>> = {}
+): ReconciliationPolicy => ({
+  missingInGraph: pickPolicy(
+    "missingInGraph",
+    overrides.missingInGraph ?? process.env.RECONCILE_MISSING_IN_GRAPH,
+    MISSING_IN_GRAPH_POLICIES,
+    "create"
+  ),
+  orphanNodes: pickPolicy(
+    "orphanNodes",
+    overrides.orphanNodes ?? process.env.RECONCILE_ORPHAN_NODES,
+    ORPHAN_NODE_POLICIES,
+    "ignore"
+  ),
+  failedOutbox: pickPolicy(
+    "failedOutbox",
+    overrides.failedOutbox ?? process.env.RECONCILE_FAILED_OUTBOX,
+    FAILED_OUTBOX_POLICIES,
+    "retry"
+  ),
+});
+
+/**
+ * The stores a drift report compares, and the outbox that repairs the graph
+ */
+export interface ReconciliationDependencies {
+  businessRepo: Pick<typeof businessRepository, "findAllBusinesses" | "insertBusiness">;
+  graphRepo: Pick<typeof graphRepository, "getAllNodes" | "countEdgesByNode">;
+  dispatchEvent: typeof outboxService.dispatchEvent;
+}
+
+/**
+ * Create the reconciliation service around the stores it compares
+ */
+export const createReconciliationService = ({
+  businessRepo,
+  graphRepo,
+  dispatchEvent,
+}: ReconciliationDependencies) => {
+  /**
+   * Diff SQLite businesses against Memgraph Business nodes
+   */
+  const buildDriftReport = async (): Promise<DriftReport> => {
+    const [businesses, nodes, outboxCounts, failedEvents] = await Promise.all([
+      businessRepo.findAllBusinesses(),
+      graphRepo.getAllNodes(),
+      outboxRepo.countEventsByStatus(),
+      outboxRepo.findEventsByStatus("failed", MAX_REPORTED_FAILED_EVENTS),
+    ]);
+
+    const sqliteIds = new Set(businesses.map((b) => b.business_id));
+    const graphIds = new Set(nodes.map((n) => n.id));
+
+    const missingInGraph = businesses.filter((b) => !graphIds.has(b.business_id));
+    const orphanIds = nodes.map((n) => n.id).filter((id) => !sqliteIds.has(id));
+    const orphanNodes = await Promise.all(
+      orphanIds.map(async (id) => ({
+        business_id: id,
+        transactionCount: await graphRepo.countEdgesByNode(id),
+      }))
+    );
+
+    return {
+      generatedAt: new Date().toISOString(),
+      inSync:
+        missingInGraph.length === 0 &&
+        orphanNodes.length === 0 &&
+        outboxCounts.failed === 0,
+      sqliteBusinessCount: businesses.length,
+      graphNodeCount: nodes.length,
+      missingInGraph,
+      orphanNodes,
+      pendingOutboxEvents: outboxCounts.pending + outboxCounts.processing,
+      failedOutboxEvents: failedEvents.map(({ id, operation, attempts, last_error }) => ({
+        id,
+        operation,
+        attempts,
+        last_error,
+      })),
+    };
+  };
+
+  /**
+   * Fix each kind of drift according to the policy.
+   * Graph changes go through the outbox so they are retried if Memgraph is unavailable.
+   */
+  const repairDrift = async (
+    policy: ReconciliationPolicy
+  ): Promise<RepairResult> => {
+    const before = await buildDriftReport();
+    const actions: RepairResult["actions"] = {
+      createdNodes: [],
+      deletedNodes: [],
+      importedBusinesses: [],
+      retriedOutboxEvents: [],
+      skipped: [],
+      pending: [],
+    };
+
+    // Apply a graph change now if possible; otherwise the outbox applies it later
+    const dispatch = async (
+      business_id: string,
+      operation: OutboxOperation,
+      outboxEventId: number
+    ): Promise<{ done: boolean; result?: unknown }> => {
+      const { done, result, error } = await dispatchEvent(outboxEventId);
+      if (!done) actions.pending.push({ business_id, operation, outboxEventId, error });
+      return { done, result };
+    };
+
+    if (policy.missingInGraph === "create") {
+      for (const business of before.missingInGraph) {
+        const { id } = await outboxRepo.enqueueEvent("upsert_business", {
+          business_id: business.business_id,
+        });
+        if ((await dispatch(business.business_id, "upsert_business", id)).done) {
+          actions.createdNodes.push(business.business_id);
+        }
+      }
+    }
+
+    for (const orphan of before.orphanNodes) {
+      if (policy.orphanNodes === "ignore") break;
+
+      if (policy.orphanNodes === "import") {
+        // Keep the node and its transactions; the placeholder row can be renamed later.
+        // The node is already in Memgraph, so the row is inserted without an outbox event.
+        await businessRepo.insertBusiness(
+          orphan.business_id,
+          `Unknown business ${orphan.business_id.slice(0, 8)}`,
+          "Unknown"
+        );
+        actions.importedBusinesses.push(orphan.business_id);
+        continue;
+      }
+
+      if (policy.orphanNodes === "delete_if_isolated" && orphan.transactionCount > 0) {
+        actions.skipped.push({
+          business_id: orphan.business_id,
+          reason: `Orphan node has ${orphan.transactionCount} transactions`,
+        });
+        continue;
+      }
+
+      // Without cascade the graph refuses the delete if the node has gained transactions since
+      const { id } = await outboxRepo.enqueueEvent("delete_business", {
+        business_id: orphan.business_id,
+        cascade: policy.orphanNodes === "delete",
+      });
+      const { done, result } = await dispatch(orphan.business_id, "delete_business", id);
+      const refused = (result as { deleted: boolean } | undefined)?.deleted === false;
+      if (refused) {
+        actions.skipped.push({
+          business_id: orphan.business_id,
+          reason: "Orphan node gained transactions before it was deleted",
+        });
+      } else if (done) {
+        actions.deletedNodes.push(orphan.business_id);
+      }
+    }
+
+    if (policy.failedOutbox === "retry") {
+      for (const event of before.failedOutboxEvents) {
+        await outboxRepo.resetEvent(event.id);
+        await dispatchEvent(event.id);
+        actions.retriedOutboxEvents.push(event.id);
+      }
+    }
+
+    const after = await buildDriftReport();
+    return { policy, before, actions, after };
+  };
+
+  return { buildDriftReport, repairDrift };
+};
+
+export const { buildDriftReport, repairDrift } = createReconciliationService({
+  businessRepo: businessRepository,
+  graphRepo: graphRepository,
+  dispatchEvent: (eventId) => outboxService.dispatchEvent(eventId),
+});
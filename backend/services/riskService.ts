@@ -0,0 +1,331 @@
+import * as alertRepository from "../repositories/alertRepository";
+import * as businessRepository from "../repositories/businessRepository";
+import * as graphRepository from "../repositories/graphRepository";
+import * as cycleService from "./cycleService";
+import {
+  Alert,
+  AlertSeverity,
+  RiskFactor,
+  RiskFactorName,
+  RiskScore,
+  Transaction,
+} from "../types";
+
+// Cycles and alert history are recounted from scratch this often; the other signals are kept up to date per transaction
+const REBUILD_INTERVAL_MS = 15 * 60 * 1000;
+const CYCLE_SPAN_HOURS = 7 * 24;
+const MAX_COUNTED_CYCLES = 10000;
+
+const FACTOR_WEIGHTS: Record<RiskFactorName, number> = {
+  centrality: 0.15,
+  counterpartyDiversity: 0.15,
+  amountVolatility: 0.15,
+  cycleParticipation: 0.25,
+  alertHistory: 0.3,
+};
+
+const SEVERITY_WEIGHTS: Record<AlertSeverity, number> = {
+  low: 1,
+  medium: 2,
+  high: 3,
+  critical: 5,
+};
+
+// The value of each saturating signal that scores 0.5
+const HALF_SCORE = {
+  amountVolatility: 1,
+  cycleParticipation: 2,
+  alertHistory: 5,
+};
+
+interface BusinessStats {
+  count: number;
+  sum: number;
+  sumSquares: number;
+  // Total amount exchanged with each counterparty, in either direction
+  counterparties: Map<string, number>;
+  cycles: number;
+  alertWeight: number;
+}
+
+interface RiskState {
+  stats: Map<string, BusinessStats>;
+  // All businesses as of the last recount, with or without transactions
+  businessCount: number;
+  rebuiltAt: number;
+}
+
+interface RecordedTransaction {
+  transaction: Transaction;
+  alerts: Alert[];
+}
+
+const emptyStats = (): BusinessStats => ({
+  count: 0,
+  sum: 0,
+  sumSquares: 0,
+  counterparties: new Map(),
+  cycles: 0,
+  alertWeight: 0,
+});
+
+const statsFor = (stats: Map<string, BusinessStats>, id: string): BusinessStats => {
+  let entry = stats.get(id);
+  if (!entry) {
+    entry = emptyStats();
+    stats.set(id, entry);
+  }
+  return entry;
+};
+
+const addTransaction = (stats: Map<string, BusinessStats>, t: Transaction): void => {
+  ([
+    [t.from, t.to],
+    [t.to, t.from],
+  ] as const).forEach(([id, counterparty]) => {
+    const entry = statsFor(stats, id);
+    entry.count++;
+    entry.sum += t.amount;
+    entry.sumSquares += t.amount * t.amount;
+    entry.counterparties.set(
+      counterparty,
+      (entry.counterparties.get(counterparty) ?? 0) + t.amount
+    );
+  });
+};
+
+const addAlert = (stats: Map<string, BusinessStats>, alert: Alert): void => {
+  new Set([alert.transaction.from, alert.transaction.to]).forEach((id) => {
+    statsFor(stats, id).alertWeight += SEVERITY_WEIGHTS[alert.severity];
+  });
+};
+
+const saturate = (value: number, half: number): number => value / (value + half);
+
+const round = (value: number, digits = 3): number => Number(value.toFixed(digits));
+
+/**
+ * Score one business from its signals
+ * @param businessCount - Number of businesses, to normalize centrality
+ */
+const scoreBusiness = (
+  stats: BusinessStats,
+  businessCount: number,
+  rebuiltAt: number
+): RiskScore => {
+  const counterparties = stats.counterparties.size;
+  const mean = stats.count > 0 ? stats.sum / stats.count : 0;
+  const variance =
+    stats.count > 0 ? Math.max(stats.sumSquares / stats.count - mean * mean, 0) : 0;
+  const volatility = mean > 0 ? Math.sqrt(variance) / mean : 0;
+
+  // 1 - Herfindahl index of the amount shares per counterparty
+  let concentration = 0;
+  stats.counterparties.forEach((amount) => {
+    const share = stats.sum > 0 ? amount / stats.sum : 0;
+    concentration += share * share;
+  });
+  const diversity = counterparties > 0 ? 1 - concentration : 0;
+
+  const signals: Record<RiskFactorName, { value: number; score: number; description: string }> = {
+    centrality: {
+      value: counterparties,
+      score: Math.min(counterparties / Math.max(businessCount - 1, 1), 1),
+      description: `Transacts with ${counterparties} of ${Math.max(businessCount - 1, 0)} other businesses`,
+    },
+    counterpartyDiversity: {
+      value: round(diversity),
+      score: diversity,
+      description: `Money is spread over ${counterparties} counterparties`,
+    },
+    amountVolatility: {
+      value: round(volatility),
+      score: saturate(volatility, HALF_SCORE.amountVolatility),
+      description: `Amounts vary by ${Math.round(volatility * 100)}% of their mean`,
+    },
+    cycleParticipation: {
+      value: stats.cycles,
+      score: saturate(stats.cycles, HALF_SCORE.cycleParticipation),
+      description: `Part of ${stats.cycles} circular flows`,
+    },
+    alertHistory: {
+      value: stats.alertWeight,
+      score: saturate(stats.alertWeight, HALF_SCORE.alertHistory),
+      description: `Severity-weighted alert count of ${stats.alertWeight}`,
+    },
+  };
+
+  const factors: RiskFactor[] = (Object.keys(FACTOR_WEIGHTS) as RiskFactorName[]).map(
+    (name) => ({
+      name,
+      value: signals[name].value,
+      score: round(signals[name].score),
+      weight: FACTOR_WEIGHTS[name],
+      contribution: round(signals[name].score * FACTOR_WEIGHTS[name] * 100, 1),
+      description: signals[name].description,
+    })
+  );
+
+  return {
+    score: round(
+      factors.reduce((total, factor) => total + factor.contribution, 0),
+      1
+    ),
+    factors,
+    rebuiltAt: new Date(rebuiltAt).toISOString(),
+  };
+};
+
+const scoreAll = (current: RiskState, businessIds: string[]): Map<string, RiskScore> =>
+  new Map(
+    businessIds.map((id) => [
+      id,
+      scoreBusiness(
+        current.stats.get(id) ?? emptyStats(),
+        // Businesses first seen in a transaction since the recount are counted too
+        Math.max(current.businessCount, current.stats.size),
+        current.rebuiltAt
+      ),
+    ])
+  );
+
+/**
+ * The stores risk signals are counted from
+ */
+export interface RiskServiceDependencies {
+  graphRepo: Pick<typeof graphRepository, "streamEdges">;
+  alertRepo: Pick<typeof alertRepository, "findLastAlertId" | "countAlertsByBusiness">;
+  businessRepo: Pick<typeof businessRepository, "countBusinesses">;
+  findCycles: typeof cycleService.findCycles;
+}
+
+/**
+ * Create the risk service; it keeps the signals of every business between rebuilds
+ */
+export const createRiskService = ({
+  graphRepo,
+  alertRepo,
+  businessRepo,
+  findCycles,
+}: RiskServiceDependencies) => {
+  let state: RiskState | null = null;
+  let rebuilding: Promise<void> | null = null;
+  // Another rebuild was requested while one was running, e.g. after a delete it may have missed
+  let rebuildAgain = false;
+  // Transactions recorded while a rebuild runs; those it didn't read are folded in when it finishes
+  let recordedDuringRebuild: RecordedTransaction[] = [];
+
+  /**
+   * Recount every signal from Memgraph and SQLite
+   * @returns The state, and the transactions and last alert it counted
+   */
+  const rebuild = async (): Promise<{
+    rebuilt: RiskState;
+    countedTransactions: Set<string>;
+    lastAlertId: number;
+  }> => {
+    const stats = new Map<string, BusinessStats>();
+    const countedTransactions = new Set<string>();
+
+    for await (const t of graphRepo.streamEdges({})) {
+      addTransaction(stats, t);
+      countedTransactions.add(t.id);
+    }
+
+    const lastAlertId = await alertRepo.findLastAlertId();
+    const [{ cycles }, alertCounts, businessCount] = await Promise.all([
+      findCycles({ maxSpanHours: CYCLE_SPAN_HOURS, limit: MAX_COUNTED_CYCLES }),
+      alertRepo.countAlertsByBusiness(lastAlertId),
+      businessRepo.countBusinesses(),
+    ]);
+    cycles.forEach((cycle) =>
+      cycle.businesses.forEach((business) => statsFor(stats, business.id).cycles++)
+    );
+    alertCounts.forEach(({ business_id, severity, count }) => {
+      statsFor(stats, business_id).alertWeight += SEVERITY_WEIGHTS[severity] * count;
+    });
+
+    return {
+      rebuilt: { stats, businessCount, rebuiltAt: Date.now() },
+      countedTransactions,
+      lastAlertId,
+    };
+  };
+
+  /**
+   * Recount every signal in the background, e.g. after changes that recordTransaction can't
+   * fold in such as deletes and imports. Scores are served from the previous state meanwhile.
+   */
+  const refreshRiskScores = (): void => {
+    if (rebuilding) {
+      rebuildAgain = true;
+      return;
+    }
+
+    recordedDuringRebuild = [];
+    rebuilding = rebuild()
+      .then(({ rebuilt, countedTransactions, lastAlertId }) => {
+        recordedDuringRebuild.forEach(({ transaction, alerts }) => {
+          if (!countedTransactions.has(transaction.id)) {
+            addTransaction(rebuilt.stats, transaction);
+          }
+          alerts
+            .filter((alert) => alert.id > lastAlertId)
+            .forEach((alert) => addAlert(rebuilt.stats, alert));
+        });
+        state = rebuilt;
+      })
+      .catch((error) =>
+        console.error("Error rebuilding risk scores:", (error as Error).message)
+      )
+      .finally(() => {
+        rebuilding = null;
+        recordedDuringRebuild = [];
+        if (rebuildAgain) {
+          rebuildAgain = false;
+          refreshRiskScores();
+        }
+      });
+  };
+
+  /**
+   * Get the risk scores of the given businesses. Businesses without transactions score 0.
+   * A missing or stale state is rebuilt in the background, so this never waits for a rebuild.
+   * @returns The scores, or an empty map until the first rebuild has finished
+   */
+  const getRiskScores = (businessIds: string[]): Map<string, RiskScore> => {
+    if (!state || Date.now() - state.rebuiltAt >= REBUILD_INTERVAL_MS) {
+      refreshRiskScores();
+    }
+    return state ? scoreAll(state, businessIds) : new Map();
+  };
+
+  /**
+   * Fold a new transaction and the alerts it raised into the signals of both parties
+   * @returns The updated scores of both parties, or an empty map if no scores have been computed yet
+   */
+  const recordTransaction = (
+    transaction: Transaction,
+    alerts: Alert[]
+  ): Map<string, RiskScore> => {
+    if (rebuilding) {
+      recordedDuringRebuild.push({ transaction, alerts });
+    }
+
+    const current = state;
+    if (!current) return new Map();
+
+    addTransaction(current.stats, transaction);
+    alerts.forEach((alert) => addAlert(current.stats, alert));
+    return scoreAll(current, [transaction.from, transaction.to]);
+  };
+
+  return { refreshRiskScores, getRiskScores, recordTransaction };
+};
+
+export const { refreshRiskScores, getRiskScores, recordTransaction } = createRiskService({
+  graphRepo: graphRepository,
+  alertRepo: alertRepository,
+  businessRepo: businessRepository,
+  findCycles: (options) => cycleService.findCycles(options),
+});
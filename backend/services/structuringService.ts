@@ -0,0 +1,306 @@
+import * as graphRepo from "../repositories/graphRepository";
+import { enrichNodes } from "./graphService";
+import {
+  EdgeFilters,
+  StructuringDetection,
+  StructuringPattern,
+  StructuringQuery,
+  StructuringSearchResult,
+  StructuringThresholds,
+  Transaction,
+} from "../types";
+
+const DEFAULT_THRESHOLDS: StructuringThresholds = {
+  windowHours: 24,
+  minCounterparties: 5,
+  maxSmallAmount: 1000,
+  minLargeAmount: 5000,
+  minConcentration: 0.8,
+};
+const DEFAULT_DETECTION_LIMIT = 50;
+// Bound on the transactions a single scan may load, so a wide time window can't stall the server
+const MAX_SCANNED_TRANSACTIONS = 200000;
+
+type TimedTransaction = Transaction & { time: number };
+
+type Match = {
+  pattern: StructuringPattern;
+  business: string;
+  large: TimedTransaction;
+  small: TimedTransaction[];
+  counterpartyCount: number;
+  smallAmount: number;
+  concentration: number;
+  windowStart: number;
+  windowEnd: number;
+};
+
+const envNumber = (value: string | undefined): number | undefined => {
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Build the detection thresholds from explicit overrides, falling back to the
+ * STRUCTURING_* environment variables and then to the defaults
+ */
+export const resolveThresholds = (
+  overrides: Partial<StructuringThresholds> = {}
+): StructuringThresholds => ({
+  windowHours:
+    overrides.windowHours ??
+    envNumber(process.env.STRUCTURING_WINDOW_HOURS) ??
+    DEFAULT_THRESHOLDS.windowHours,
+  minCounterparties:
+    overrides.minCounterparties ??
+    envNumber(process.env.STRUCTURING_MIN_COUNTERPARTIES) ??
+    DEFAULT_THRESHOLDS.minCounterparties,
+  maxSmallAmount:
+    overrides.maxSmallAmount ??
+    envNumber(process.env.STRUCTURING_MAX_SMALL_AMOUNT) ??
+    DEFAULT_THRESHOLDS.maxSmallAmount,
+  minLargeAmount:
+    overrides.minLargeAmount ??
+    envNumber(process.env.STRUCTURING_MIN_LARGE_AMOUNT) ??
+    DEFAULT_THRESHOLDS.minLargeAmount,
+  minConcentration:
+    overrides.minConcentration ??
+    envNumber(process.env.STRUCTURING_MIN_CONCENTRATION) ??
+    DEFAULT_THRESHOLDS.minConcentration,
+});
+
+/**
+ * Whether new transactions are checked for structuring as they are created
+ */
+export const liveAlertsEnabled = (): boolean =>
+  process.env.STRUCTURING_LIVE_ALERTS === "true";
+
+const toTimed = (t: Transaction): TimedTransaction => ({
+  ...t,
+  time: Date.parse(t.timestamp),
+});
+
+/**
+ * Index of the first transaction at or after the given time
+ */
+const firstAtOrAfter = (sorted: TimedTransaction[], time: number): number => {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid].time < time) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+/**
+ * Check one large transaction against the small payments around it.
+ * For fan-in the large payment leaves the business and the small ones arrive in the window before it;
+ * for fan-out it arrives and the small ones leave in the window after it.
+ * @param candidates - Small-payment candidates of the business, oldest first: incoming for fan-in, outgoing for fan-out
+ */
+const evaluate = (
+  pattern: StructuringPattern,
+  large: TimedTransaction,
+  candidates: TimedTransaction[],
+  thresholds: StructuringThresholds
+): Match | null => {
+  const windowMs = thresholds.windowHours * 3600 * 1000;
+  const business = pattern === "fan_in" ? large.from : large.to;
+  const windowStart = pattern === "fan_in" ? large.time - windowMs : large.time;
+  const windowEnd = pattern === "fan_in" ? large.time : large.time + windowMs;
+
+  const small: TimedTransaction[] = [];
+  const counterparties = new Set<string>();
+  let smallAmount = 0;
+  for (let i = firstAtOrAfter(candidates, windowStart); i < candidates.length; i++) {
+    const t = candidates[i];
+    if (t.time > windowEnd) break;
+    if (t.id === large.id || t.amount > thresholds.maxSmallAmount) continue;
+    small.push(t);
+    smallAmount += t.amount;
+    counterparties.add(pattern === "fan_in" ? t.from : t.to);
+  }
+  if (counterparties.size < thresholds.minCounterparties) return null;
+
+  const concentration =
+    pattern === "fan_in" ? large.amount / smallAmount : smallAmount / large.amount;
+  if (concentration < thresholds.minConcentration) return null;
+
+  return {
+    pattern,
+    business,
+    large,
+    small,
+    counterpartyCount: counterparties.size,
+    smallAmount,
+    concentration,
+    windowStart,
+    windowEnd,
+  };
+};
+
+const toDetections = async (matches: Match[]): Promise<StructuringDetection[]> => {
+  const nodes = await enrichNodes(Array.from(new Set(matches.map((m) => m.business))));
+  const strip = ({ time: _time, ...t }: TimedTransaction): Transaction => t;
+
+  return matches.map((m) => ({
+    pattern: m.pattern,
+    business: nodes.get(m.business)!,
+    largeTransaction: strip(m.large),
+    smallTransactions: m.small.map(strip),
+    counterpartyCount: m.counterpartyCount,
+    smallAmount: m.smallAmount,
+    concentration: m.concentration,
+    windowStart: new Date(m.windowStart).toISOString(),
+    windowEnd: new Date(m.windowEnd).toISOString(),
+  }));
+};
+
+/**
+ * Scan a time window for structuring. Every large transaction is a candidate:
+ * its sender is checked for fan-in and its recipient for fan-out. Transactions up to one
+ * window outside the requested range are loaded so patterns at the edges are complete.
+ * Detections are ranked by the number of counterparties, then by the amount moved.
+ */
+export const findStructuring = async (
+  query: StructuringQuery
+): Promise<StructuringSearchResult> => {
+  const thresholds = resolveThresholds(query);
+  const limit = query.limit ?? DEFAULT_DETECTION_LIMIT;
+  const windowMs = thresholds.windowHours * 3600 * 1000;
+  const startTime = query.startDate ? Date.parse(query.startDate) : -Infinity;
+  const endTime = query.endDate ? Date.parse(query.endDate) : Infinity;
+
+  const incoming = new Map<string, TimedTransaction[]>();
+  const outgoing = new Map<string, TimedTransaction[]>();
+  const large: TimedTransaction[] = [];
+  const index = (map: Map<string, TimedTransaction[]>, key: string, t: TimedTransaction) => {
+    const list = map.get(key);
+    if (list) list.push(t);
+    else map.set(key, [t]);
+  };
+
+  let scanned = 0;
+  let truncated = false;
+  for await (const t of graphRepo.streamEdges({
+    startDate: query.startDate ? new Date(startTime - windowMs).toISOString() : undefined,
+    endDate: query.endDate ? new Date(endTime + windowMs).toISOString() : undefined,
+  })) {
+    if (scanned >= MAX_SCANNED_TRANSACTIONS) {
+      truncated = true;
+      break;
+    }
+    scanned++;
+    const timed = toTimed(t);
+    if (Number.isNaN(timed.time)) continue;
+    if (timed.amount <= thresholds.maxSmallAmount) {
+      index(incoming, t.to, timed);
+      index(outgoing, t.from, timed);
+    }
+    if (
+      timed.amount >= thresholds.minLargeAmount &&
+      timed.time >= startTime &&
+      timed.time <= endTime
+    ) {
+      large.push(timed);
+    }
+  }
+  incoming.forEach((list) => list.sort((a, b) => a.time - b.time));
+  outgoing.forEach((list) => list.sort((a, b) => a.time - b.time));
+
+  const matches: Match[] = [];
+  for (const t of large) {
+    if (query.pattern !== "fan_out" && (!query.business || query.business === t.from)) {
+      const match = evaluate("fan_in", t, incoming.get(t.from) || [], thresholds);
+      if (match) matches.push(match);
+    }
+    if (query.pattern !== "fan_in" && (!query.business || query.business === t.to)) {
+      const match = evaluate("fan_out", t, outgoing.get(t.to) || [], thresholds);
+      if (match) matches.push(match);
+    }
+  }
+
+  const ranked = matches
+    .sort(
+      (a, b) =>
+        b.counterpartyCount - a.counterpartyCount ||
+        b.smallAmount - a.smallAmount ||
+        b.large.time - a.large.time
+    )
+    .slice(0, limit);
+
+  return {
+    detections: await toDetections(ranked),
+    thresholds,
+    scannedTransactions: scanned,
+    truncated,
+  };
+};
+
+/**
+ * Find the structuring patterns a newly created transaction completes, using the
+ * live-alert thresholds. A large payment can complete a fan-in at its sender; a small
+ * payment can complete a fan-out at its sender that did not hold without it.
+ */
+export const checkTransaction = async (
+  transaction: Transaction
+): Promise<StructuringDetection[]> => {
+  const thresholds = resolveThresholds();
+  const windowMs = thresholds.windowHours * 3600 * 1000;
+  const t = toTimed(transaction);
+  if (Number.isNaN(t.time)) return [];
+
+  const collect = async (
+    filters: EdgeFilters,
+    include?: TimedTransaction
+  ): Promise<TimedTransaction[]> => {
+    const list: TimedTransaction[] = include ? [include] : [];
+    for await (const edge of graphRepo.streamEdges(filters)) {
+      if (edge.id !== include?.id) list.push(toTimed(edge));
+    }
+    return list.sort((a, b) => a.time - b.time);
+  };
+
+  const matches: Match[] = [];
+
+  if (t.amount >= thresholds.minLargeAmount) {
+    const received = await collect({
+      to: t.from,
+      startDate: new Date(t.time - windowMs).toISOString(),
+      endDate: transaction.timestamp,
+      maxAmount: thresholds.maxSmallAmount,
+    });
+    const match = evaluate("fan_in", t, received, thresholds);
+    if (match) matches.push(match);
+  }
+
+  if (t.amount <= thresholds.maxSmallAmount) {
+    const windowStart = new Date(t.time - windowMs).toISOString();
+    const [largeReceived, sent] = await Promise.all([
+      collect({
+        to: t.from,
+        startDate: windowStart,
+        endDate: transaction.timestamp,
+        minAmount: thresholds.minLargeAmount,
+      }),
+      collect({
+        from: t.from,
+        startDate: windowStart,
+        endDate: transaction.timestamp,
+        maxAmount: thresholds.maxSmallAmount,
+      }, t),
+    ]);
+    const withoutNew = sent.filter((s) => s.id !== t.id);
+
+    for (const large of largeReceived) {
+      const match = evaluate("fan_out", large, sent, thresholds);
+      if (match && match.small.some((s) => s.id === t.id)) {
+        if (!evaluate("fan_out", large, withoutNew, thresholds)) matches.push(match);
+      }
+    }
+  }
+
+  return toDetections(matches);
+};
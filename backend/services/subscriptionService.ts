@@ -0,0 +1,109 @@
+import { Server, Socket } from "socket.io";
+import { v4 as uuidv4 } from "uuid";
+import {
+  SocketSubscriptions,
+  Subscription,
+  SubscriptionFilter,
+  TransactionWithIndustries,
+} from "../types";
+
+// Subscriptions are kept on the socket, so they end with the connection
+const subscriptionsOf = (socket: Socket): Subscription[] =>
+  (socket.data.subscriptions ??= []);
+
+const normalizeFilter = (filter: SubscriptionFilter): SubscriptionFilter => ({
+  ...filter,
+  ...(filter.industries && {
+    industries: filter.industries.map((industry) => industry.toLowerCase()),
+  }),
+});
+
+/**
+ * Start sending a client the events of transactions matching the filter. A client with
+ * several subscriptions gets the events matching any of them.
+ */
+export const subscribe = (socket: Socket, filter: SubscriptionFilter): Subscription => {
+  const subscription: Subscription = {
+    id: uuidv4(),
+    filter: normalizeFilter(filter),
+    createdAt: new Date().toISOString(),
+  };
+  subscriptionsOf(socket).push(subscription);
+  return subscription;
+};
+
+/**
+ * Give a reconnected client back the subscriptions it had, with their IDs
+ */
+export const restoreSubscriptions = (socket: Socket, subscriptions: Subscription[]): void => {
+  socket.data.subscriptions = subscriptions.map((subscription) => ({
+    ...subscription,
+    filter: normalizeFilter(subscription.filter),
+  }));
+};
+
+/**
+ * Remove one subscription of a client, or all of them. Without subscriptions, the client gets every event again.
+ * @returns Number of subscriptions removed
+ */
+export const unsubscribe = (socket: Socket, id?: string): number => {
+  const subscriptions = subscriptionsOf(socket);
+  const kept = id === undefined ? [] : subscriptions.filter((s) => s.id !== id);
+  socket.data.subscriptions = kept;
+  return subscriptions.length - kept.length;
+};
+
+export const getSubscriptions = (socket: Socket): Subscription[] => subscriptionsOf(socket);
+
+/**
+ * List the subscriptions of every connected client that has any
+ */
+export const listSubscriptions = (io: Server): SocketSubscriptions[] =>
+  Array.from(io.sockets.sockets.values())
+    .map((socket) => ({ socketId: socket.id, subscriptions: subscriptionsOf(socket) }))
+    .filter((entry) => entry.subscriptions.length > 0);
+
+const matchesFilter = (
+  filter: SubscriptionFilter,
+  transaction: TransactionWithIndustries
+): boolean => {
+  if (
+    filter.businessIds &&
+    !filter.businessIds.includes(transaction.from) &&
+    !filter.businessIds.includes(transaction.to)
+  ) {
+    return false;
+  }
+  if (
+    filter.industries &&
+    ![transaction.fromIndustry, transaction.toIndustry].some(
+      (industry) => industry !== null && filter.industries!.includes(industry.toLowerCase())
+    )
+  ) {
+    return false;
+  }
+  if (filter.minAmount !== undefined && transaction.amount < filter.minAmount) return false;
+  if (filter.maxAmount !== undefined && transaction.amount > filter.maxAmount) return false;
+  return true;
+};
+
+/**
+ * Whether a client wants the events of a transaction: it has a matching subscription,
+ * or hasn't subscribed to anything
+ */
+export const wantsTransaction = (socket: Socket, transaction: TransactionWithIndustries): boolean => {
+  const subscriptions = subscriptionsOf(socket);
+  return (
+    subscriptions.length === 0 ||
+    subscriptions.some((subscription) => matchesFilter(subscription.filter, transaction))
+  );
+};
+
+/**
+ * The connected clients that want the events of a transaction
+ */
+export const socketsForTransaction = (
+  io: Server,
+  transaction: TransactionWithIndustries
+): Socket[] =>
+  Array.from(io.sockets.sockets.values()).filter((socket) => wantsTransaction(socket, transaction));
@@ -1,32 +1,116 @@
+import { v4 as uuidv4 } from "uuid";
 import * as businessRepo from "../repositories/businessRepository";
 import * as businessService from "./businessService";
 import * as graphRepo from "../repositories/graphRepository";
+import * as outboxRepo from "../repositories/outboxRepository";
+import * as outboxService from "./outboxService";
+import * as alertService from "./alertService";
+import * as riskService from "./riskService";
+import * as structuringService from "./structuringService";
+import {
+  emitAlert,
+  emitGraphDelta,
+  emitRiskUpdated,
+  emitStructuringAlert,
+} from "./notificationService";
+import { Server } from "socket.io";
+import { decodeCursor, encodeCursor } from "../utils/cursor";
 
 import {
+  Alert,
   Transaction,
   EnrichedTransaction,
   CreateTransactionDto,
+  EdgeFilters,
+  Page,
+  PageRequest,
+  PaginationQuery,
+  TransactionFilters,
 } from "../types";
 
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Fill in paging defaults. The cursor must already have been checked by the
+ * request validation, so it decodes and matches the requested sort.
+ */
+export const resolvePageRequest = (query: PaginationQuery): PageRequest => {
+  const after = query.cursor ? decodeCursor(query.cursor) : null;
+  return {
+    limit: query.limit ?? DEFAULT_PAGE_SIZE,
+    sort: after?.sort ?? query.sort ?? "timestamp",
+    order: after?.order ?? query.order ?? "desc",
+    after: after ?? undefined,
+    includeTotal: query.includeTotal ?? false,
+  };
+};
+
 /**
- * Get all transactions with optional filtering
+ * Translate transaction filters for Memgraph by looking up the businesses of the industry filter
+ */
+export const resolveEdgeFilters = async (
+  filters: TransactionFilters
+): Promise<EdgeFilters> => {
+  const { industry, ...edgeFilters } = filters;
+  if (industry === undefined) return edgeFilters;
+
+  return {
+    ...edgeFilters,
+    businessIds: await businessRepo.findBusinessIdsByIndustry(industry),
+  };
+};
+
+/**
+ * Fetch one page of transactions from Memgraph
+ */
+const findTransactionPage = async (
+  filters: TransactionFilters,
+  page: PageRequest
+): Promise<Page<Transaction>> => {
+  const edgeFilters = await resolveEdgeFilters(filters);
+
+  // Fetch one extra row to find out whether another page follows
+  const [rows, total] = await Promise.all([
+    graphRepo.findEdgesPage(edgeFilters, { ...page, limit: page.limit + 1 }),
+    page.includeTotal ? graphRepo.countEdges(edgeFilters) : undefined,
+  ]);
+
+  const items = rows.slice(0, page.limit);
+  const last = items[items.length - 1];
+  const nextCursor =
+    rows.length > page.limit && last
+      ? encodeCursor({
+          sort: page.sort,
+          order: page.order,
+          value: last[page.sort],
+          id: last.id,
+        })
+      : null;
+
+  return { items, nextCursor, limit: page.limit, total };
+};
+
+/**
+ * Get a page of all transactions
  */
 export const getAllTransactions = async (
-  from?: string,
-  to?: string
-): Promise<Transaction[]> => {
-  return await graphRepo.findAllEdges(from, to);
+  page: PageRequest
+): Promise<Page<Transaction>> => {
+  return await findTransactionPage({}, page);
 };
 
 /**
- * Get enriched transactions with business names instead of IDs
+ * Get a page of enriched transactions with business names instead of IDs
  */
 export const getEnrichedTransactions = async (
-  from?: string,
-  to?: string
-): Promise<EnrichedTransaction[]> => {
+  filters: Pick<TransactionFilters, "from" | "to">,
+  page: PageRequest
+): Promise<Page<EnrichedTransaction>> => {
   // Step 1: Fetch transactions from Memgraph
-  const transactions = await graphRepo.findAllEdges(from, to);
+  const { items: transactions, ...pagination } = await findTransactionPage(
+    filters,
+    page
+  );
 
   // Step 2: Extract unique business IDs
   const ids = new Set<string>();
@@ -40,81 +124,177 @@ export const getEnrichedTransactions = async (
   const { nameMap } = await businessRepo.getBusinessDetails(uniqueBusinessIds);
 
   // Step 4: Enrich transactions with business names
-  return transactions.map((t) => ({
+  const items = transactions.map((t) => ({
+    id: t.id,
     from: nameMap[t.from] || t.from,
     to: nameMap[t.to] || t.to,
     amount: t.amount,
     timestamp: t.timestamp,
   }));
+  return { items, ...pagination };
 };
 
 /**
- * Get filtered transactions by various criteria
+ * Get a page of transactions filtered by various criteria
  */
 export const getFilteredTransactions = async (
-  from?: string,
-  to?: string,
-  startDate?: string,
-  endDate?: string,
-  minAmount?: string,
-  maxAmount?: string
-): Promise<Transaction[]> => {
-  return await graphRepo.findFilteredEdges(
-    from,
-    to,
-    startDate,
-    endDate,
-    minAmount,
-    maxAmount
-  );
+  filters: TransactionFilters,
+  page: PageRequest
+): Promise<Page<Transaction>> => {
+  return await findTransactionPage(filters, page);
 };
 
 /**
- * Create a new transaction between two businesses
+ * Thrown when an Idempotency-Key is replayed with a different request payload
  */
-export const createTransaction = async (
+export class IdempotencyConflictError extends Error {
+  constructor(idempotencyKey: string) {
+    super(
+      `Idempotency-Key "${idempotencyKey}" was already used with a different request payload`
+    );
+    this.name = "IdempotencyConflictError";
+  }
+}
+
+const isSamePayload = (
+  transaction: Transaction,
   dto: CreateTransactionDto
-): Promise<Transaction> => {
-  const MAX_RETRIES = 3;
-  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+): boolean =>
+  transaction.from === dto.from &&
+  transaction.to === dto.to &&
+  transaction.amount === dto.amount &&
+  transaction.timestamp === dto.timestamp;
+
+/**
+ * Create a new transaction between two businesses.
+ *
+ * The transaction is first recorded in the SQLite outbox and then applied to Memgraph.
+ * If Memgraph is unavailable it stays pending and the outbox dispatcher applies it later.
+ * When an idempotency key is given and a transaction was already created with it,
+ * the original transaction is returned instead of creating a new one.
+ */
+export const createTransaction = async (
+  dto: CreateTransactionDto,
+  idempotencyKey?: string
+): Promise<{
+  transaction: Transaction;
+  replayed: boolean;
+  pending: boolean;
+  // Whether this call applied the transaction to Memgraph, and so must publish it
+  applied: boolean;
+}> => {
+  if (idempotencyKey) {
+    const existing = await findByIdempotencyKey(idempotencyKey);
+    if (existing) {
+      if (!isSamePayload(existing.transaction, dto)) {
+        throw new IdempotencyConflictError(idempotencyKey);
+      }
+      return { ...existing, replayed: true, applied: false };
+    }
+  }
+
+  const transaction: Transaction = {
+    id: uuidv4(),
+    from: dto.from,
+    to: dto.to,
+    amount: dto.amount,
+    timestamp: dto.timestamp,
+  };
+
+  let eventId: number;
+  try {
+    ({ id: eventId } = await outboxRepo.enqueueEvent(
+      "create_transaction",
+      { ...transaction, idempotencyKey },
+      idempotencyKey
+    ));
+  } catch (err: any) {
+    // A concurrent request with the same key won the race to enqueue
+    const duplicateKey = String(err?.message || "").includes(
+      "graph_outbox.idempotency_key"
+    );
+    if (idempotencyKey && duplicateKey) {
+      return createTransaction(dto, idempotencyKey);
+    }
+    throw err;
+  }
+
+  // The outbox dispatcher may have applied it first, in which case it also publishes it
+  const { applied, done } = await outboxService.dispatchEvent(eventId);
+  return { transaction, replayed: false, pending: !done, applied };
+};
+
+/**
+ * Look up a transaction created with an idempotency key. Every keyed transaction is enqueued
+ * in the outbox, whose rows are kept once applied, so the unique index on the key answers this
+ * without searching the graph.
+ */
+const findByIdempotencyKey = async (
+  idempotencyKey: string
+): Promise<{ transaction: Transaction; pending: boolean } | null> => {
+  const event = await outboxRepo.findEventByIdempotencyKey(idempotencyKey);
+  if (!event || event.operation !== "create_transaction") return null;
+
+  const { idempotencyKey: _key, ...transaction } = event.payload;
+  return { transaction, pending: event.status !== "done" };
+};
+
+/**
+ * Publish a newly created transaction to connected clients, along with the alerts
+ * its rules raise, the updated risk scores of both parties and any structuring
+ * pattern it completes when live alerts are enabled
+ */
+export const publishTransaction = async (
+  io: Server | undefined,
+  transaction: Transaction
+): Promise<void> => {
+  const enrichedTransaction = await enrichTransaction(transaction);
+  await emitGraphDelta(io, transaction, enrichedTransaction);
+
+  // Failed checks must not fail the transaction that was already created
+  let alerts: Alert[] = [];
+  try {
+    alerts = await alertService.evaluateTransaction(transaction);
+    for (const alert of alerts) {
+      await emitAlert(io, alert);
+    }
+  } catch (error) {
+    console.error("Alert rule evaluation failed:", (error as Error).message);
+  }
+
+  const scores = riskService.recordTransaction(transaction, alerts);
+  emitRiskUpdated(
+    io,
+    Array.from(scores, ([business_id, risk]) => ({ business_id, risk }))
+  );
+
+  if (structuringService.liveAlertsEnabled()) {
     try {
-      // open session/tx, run Cypher, commit, return
-      return await graphRepo.createEdge(
-        dto.from,
-        dto.to,
-        dto.amount,
-        dto.timestamp
-      );
-    } catch (err: any) {
-      const msg = String(err?.message || "");
-      const retryable =
-        msg.includes("conflicting transactions") ||
-        msg.includes("Retry this transaction");
-      if (!retryable || attempt === MAX_RETRIES) throw err;
-
-      const backoff = Math.min(100 * 2 ** attempt + Math.random() * 50, 1000);
-      await new Promise((r) => setTimeout(r, backoff));
+      const detections = await structuringService.checkTransaction(transaction);
+      detections.forEach((detection) => emitStructuringAlert(io, detection));
+    } catch (error) {
+      console.error("Structuring check failed:", (error as Error).message);
     }
   }
-  throw new Error("unreachable");
 };
 
 /**
  * Enrich transaction data with business names for notifications
  */
 export const enrichTransaction = async (
-  dto: CreateTransactionDto
+  transaction: Transaction
 ): Promise<Transaction> => {
   const businesses = await businessService.getBusinessesByIds([
-    dto.from,
-    dto.to,
+    transaction.from,
+    transaction.to,
   ]);
   const businessMap = new Map(businesses.map((b) => [b.business_id, b]));
 
   return {
-    from: businessMap.get(dto.from)?.name || dto.from,
-    to: businessMap.get(dto.to)?.name || dto.to,
-    amount: dto.amount,
-    timestamp: dto.timestamp,
+    id: transaction.id,
+    from: businessMap.get(transaction.from)?.name || transaction.from,
+    to: businessMap.get(transaction.to)?.name || transaction.to,
+    amount: transaction.amount,
+    timestamp: transaction.timestamp,
   };
 };
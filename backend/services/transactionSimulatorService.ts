@@ -1,4 +1,5 @@
 import * as businessService from "./businessService";
+import { getInternalToken } from "./authService";
 
 import { Transaction } from "../types";
 
@@ -38,7 +39,10 @@ export const generateMockTransactions = async (
 
       const res = await fetch(BACKEND_URL, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${getInternalToken()}`,
+        },
         body: JSON.stringify(payload),
       });
 
@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import * as db from "../database";
+import * as graphRepo from "../repositories/graphRepository";
+import { recordCall, verifyChain } from "../services/auditService";
+import { migrateSqlite } from "../utils/migrate";
+
+before(async () => {
+  await migrateSqlite();
+});
+
+after(async () => {
+  await db.closeDatabase();
+  await graphRepo.closeDriver();
+});
+
+const call = (path: string) => ({
+  principal: { keyId: 1, name: "ci", role: "analyst" as const },
+  ip: "127.0.0.1",
+  method: "POST",
+  path,
+  statusCode: 201,
+  outcome: "success" as const,
+  payload: { name: "Acme" },
+});
+
+test("entries are chained to the one before, and the triggers keep them append-only", async () => {
+  const first = await recordCall(call("/api/businesses"));
+  const second = await recordCall(call("/api/transactions"));
+
+  assert.equal(second.prev_hash, first.hash);
+  assert.deepEqual(await verifyChain(), { valid: true, checked: 2, brokenAt: null });
+  await assert.rejects(
+    db.run("UPDATE audit_log SET actor = ? WHERE id = ?", ["someone else", first.id]),
+    /append-only/
+  );
+  await assert.rejects(db.run("DELETE FROM audit_log WHERE id = ?", [second.id]), /append-only/);
+});
+
+test("an entry changed behind the triggers' back breaks the chain from there on", async () => {
+  const tampered = await recordCall(call("/api/alert-rules"));
+  await recordCall(call("/api/import"));
+
+  await db.exec("DROP TRIGGER audit_log_no_update");
+  await db.run("UPDATE audit_log SET status_code = 200 WHERE id = ?", [tampered.id]);
+
+  const verification = await verifyChain();
+  assert.equal(verification.valid, false);
+  assert.equal(verification.brokenAt, tampered.id);
+});
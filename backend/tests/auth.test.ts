@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { AddressInfo } from "net";
+import { after, before, test } from "node:test";
+import express from "express";
+import { authenticate, authorizeByMethod } from "../auth";
+import * as db from "../database";
+import * as graphRepo from "../repositories/graphRepository";
+import subscriptionsRoute from "../routes/subscriptions";
+import * as authService from "../services/authService";
+import { migrateSqlite } from "../utils/migrate";
+
+before(async () => {
+  await migrateSqlite();
+});
+
+after(async () => {
+  await db.closeDatabase();
+  await graphRepo.closeDriver();
+});
+
+test("each role includes the roles below it", () => {
+  const analyst = { keyId: 1, name: "ci", role: "analyst" as const };
+  assert.equal(authService.hasRole(analyst, "viewer"), true);
+  assert.equal(authService.hasRole(analyst, "analyst"), true);
+  assert.equal(authService.hasRole(analyst, "admin"), false);
+  assert.equal(authService.hasRole(undefined, "viewer"), false);
+});
+
+test("issued keys authenticate until they are revoked", async () => {
+  const issued = await authService.issueKey({ name: "dashboard", role: "viewer" });
+
+  assert.deepEqual(await authService.authenticate(issued.key), {
+    keyId: issued.id,
+    name: "dashboard",
+    role: "viewer",
+  });
+  assert.equal(await authService.authenticate(`${issued.key}x`), null);
+
+  await authService.revokeKey(issued.id);
+  assert.equal(await authService.authenticate(issued.key), null);
+});
+
+test("only admins may list every client's subscriptions", async () => {
+  const app = express();
+  app.use(authenticate, authorizeByMethod);
+  app.use("/api/subscriptions", subscriptionsRoute);
+  const server = app.listen(0);
+
+  try {
+    const { port } = server.address() as AddressInfo;
+    const list = (key?: string) =>
+      fetch(`http://127.0.0.1:${port}/api/subscriptions`, {
+        headers: key ? { "X-API-Key": key } : {},
+      });
+    const viewer = await authService.issueKey({ name: "viewer", role: "viewer" });
+    const analyst = await authService.issueKey({ name: "analyst", role: "analyst" });
+    const admin = await authService.issueKey({ name: "admin", role: "admin" });
+
+    assert.equal((await list()).status, 401);
+    assert.equal((await list(viewer.key)).status, 403);
+    assert.equal((await list(analyst.key)).status, 403);
+    const response = await list(admin.key);
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { success: true, data: [] });
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
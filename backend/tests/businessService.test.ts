@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import * as db from "../database";
+import * as businessRepo from "../repositories/businessRepository";
+import * as graphRepo from "../repositories/graphRepository";
+import { createBusinessService } from "../services/businessService";
+import { createOutboxService } from "../services/outboxService";
+import { Business, BusinessDeletedPayload } from "../types";
+import { migrateSqlite } from "../utils/migrate";
+
+const unused = async (): Promise<never> => {
+  throw new Error("not used by this test");
+};
+
+before(async () => {
+  await migrateSqlite();
+});
+
+after(async () => {
+  await db.closeDatabase();
+  await graphRepo.closeDriver();
+});
+
+// A transaction was created after any earlier check, so the node has an edge when it is deleted
+const refusingOutbox = (calls: boolean[]) =>
+  createOutboxService({
+    graphRepo: {
+      createOrFindNode: unused,
+      createEdge: unused,
+      deleteNode: async (_businessId, cascade) => {
+        calls.push(cascade);
+        return { deleted: cascade, transactionCount: 1 };
+      },
+    },
+    businessRepo,
+    refreshRiskScores: () => undefined,
+  });
+
+test("a delete the graph refuses leaves the business in place", async () => {
+  await businessRepo.createBusiness("acme", "Acme", "Retail");
+  const before = await businessRepo.findBusinessById("acme");
+
+  const calls: boolean[] = [];
+  const { dispatchEvent } = refusingOutbox(calls);
+  const { deleteBusiness } = createBusinessService({
+    businessRepo,
+    graphRepo: { countEdgesByNode: unused },
+    dispatchEvent,
+    getRiskScores: () => new Map(),
+  });
+
+  const result = await deleteBusiness("acme");
+
+  assert.equal(result.success, false);
+  assert.equal(result.reason, "has_transactions");
+  assert.deepEqual(calls, [false]);
+  assert.deepEqual(await businessRepo.findBusinessById("acme"), before);
+
+  const cascaded = await deleteBusiness("acme", { cascade: true });
+  assert.deepEqual(cascaded, { success: true, removedTransactions: 1 });
+  assert.equal(await businessRepo.findBusinessById("acme"), null);
+});
+
+test("deletes left pending by their request are published once the dispatcher applies them", async () => {
+  await businessRepo.createBusiness("initech", "Initech", "Software");
+  await businessRepo.createBusiness("globex", "Globex", "Energy");
+
+  // Memgraph was unavailable when both deletes were requested
+  await businessRepo.deleteBusiness("initech", false);
+  await businessRepo.deleteBusiness("globex", true);
+
+  const restored: Business[] = [];
+  const deleted: BusinessDeletedPayload[] = [];
+  const { dispatchPending } = refusingOutbox([]);
+  await dispatchPending({
+    onBusinessRestored: (business) => restored.push(business),
+    onBusinessDeleted: (payload) => deleted.push(payload),
+  });
+
+  assert.deepEqual(restored, [{ business_id: "initech", name: "Initech", industry: "Software" }]);
+  assert.deepEqual(deleted, [{ business_id: "globex", removedTransactions: 1 }]);
+  assert.equal((await businessRepo.findBusinessById("initech"))?.name, "Initech");
+});
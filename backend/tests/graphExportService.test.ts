@@ -0,0 +1,42 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createGraphExportService } from "../services/graphExportService";
+import { Transaction } from "../types";
+
+// Cypher types a number literal by its form: digits alone are an Integer, a fraction or exponent makes a Float
+const readCypherNumber = (literal: string): { type: "Integer" | "Float"; value: number } => {
+  if (/^-?\d+$/.test(literal)) return { type: "Integer", value: Number(literal) };
+  if (/^-?\d+(\.\d+)?(e-?\d+)?$/i.test(literal)) return { type: "Float", value: Number(literal) };
+  throw new Error(`Not a Cypher number literal: ${literal}`);
+};
+
+test("a Cypher dump recreates amounts as floats, whole or not", async () => {
+  // As read from Memgraph, where every amount is a Float
+  const transactions: Transaction[] = [
+    { id: "t1", from: "a", to: "b", amount: 100, timestamp: "2024-01-01T00:00:00.000Z" },
+    { id: "t2", from: "b", to: "a", amount: 12.5, timestamp: "2024-01-02T00:00:00.000Z" },
+    { id: "t3", from: "a", to: "b", amount: 1e21, timestamp: "2024-01-03T00:00:00.000Z" },
+  ];
+  const { openGraphExport } = createGraphExportService({
+    graphRepo: {
+      findAggregatedEdges: async () => [],
+      getAllNodes: async () => [{ id: "a" }, { id: "b" }],
+      streamEdges: async function* () {
+        yield* transactions;
+      },
+    },
+    enrichNodes: async (ids) => new Map(ids.map((id) => [id, { id, name: null, industry: null }])),
+    resolveEdgeFilters: async () => ({}),
+  });
+
+  let dump = "";
+  for await (const chunk of await openGraphExport({}, "cypher")) dump += chunk;
+
+  const imported = Array.from(dump.matchAll(/SET t\.amount = (\S+),/g), (match) =>
+    readCypherNumber(match[1])
+  );
+  assert.deepEqual(
+    imported,
+    transactions.map((t) => ({ type: "Float", value: t.amount }))
+  );
+});
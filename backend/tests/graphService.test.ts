@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createGraphService } from "../services/graphService";
+import { GraphEdge, Transaction } from "../types";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const unused = async (): Promise<never> => {
+  throw new Error("not used by this test");
+};
+
+test("concurrent deltas on one pair get versions in the order their totals were read", async () => {
+  // Edge totals in Memgraph; the first read is slow, so without ordering it would finish last
+  let committed = 1;
+  const readDelays = [50, 5];
+  const { getTransactionDelta } = createGraphService({
+    graphRepo: {
+      getAllNodes: unused,
+      getAllEdges: unused,
+      findAggregatedEdges: async (): Promise<GraphEdge[]> => {
+        const transactionCount = committed;
+        await delay(readDelays.shift() ?? 0);
+        return [{ id: "a->b", source: "a", target: "b", transactionCount, transactionAmount: transactionCount * 100 }];
+      },
+    },
+    businessRepo: {
+      getBusinessDetails: async () => ({
+        nameMap: { a: "A", b: "B" },
+        industryMap: { a: "Retail", b: "Retail" },
+      }),
+    },
+  });
+
+  const transaction = (id: string): Transaction => ({
+    id,
+    from: "a",
+    to: "b",
+    amount: 100,
+    timestamp: new Date().toISOString(),
+  });
+  const first = getTransactionDelta(transaction("1"), transaction("1"));
+  committed = 2;
+  const second = getTransactionDelta(transaction("2"), transaction("2"));
+  const deltas = await Promise.all([first, second]);
+
+  deltas.sort((x, y) => x.version - y.version);
+  assert.equal(deltas[1].version, deltas[0].version + 1);
+  assert.ok(deltas[1].edge.transactionCount >= deltas[0].edge.transactionCount);
+  assert.equal(deltas[1].edge.transactionCount, 2);
+});
+
+test("nodes that arrive by delta have a cluster", async () => {
+  const { getTransactionDelta } = createGraphService({
+    graphRepo: {
+      getAllNodes: unused,
+      getAllEdges: unused,
+      findAggregatedEdges: async (): Promise<GraphEdge[]> => [
+        { id: "c->d", source: "c", target: "d", transactionCount: 1, transactionAmount: 100 },
+      ],
+    },
+    businessRepo: { getBusinessDetails: async () => ({ nameMap: {}, industryMap: {} }) },
+  });
+
+  const transaction = { id: "3", from: "c", to: "d", amount: 100, timestamp: new Date().toISOString() };
+  const delta = await getTransactionDelta(transaction, transaction);
+
+  const [from, to] = delta.nodes;
+  assert.equal(typeof from.clusterId, "number");
+  assert.equal(from.clusterId, to.clusterId);
+});
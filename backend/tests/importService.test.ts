@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, before, test } from "node:test";
+import * as db from "../database";
+import * as graphRepo from "../repositories/graphRepository";
+import * as importRepo from "../repositories/importRepository";
+import { createImportService, ImportInProgressError } from "../services/importService";
+import { Transaction } from "../types";
+import { migrateSqlite } from "../utils/migrate";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "import-test-"));
+
+before(async () => {
+  await migrateSqlite();
+});
+
+after(async () => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  await db.closeDatabase();
+  await graphRepo.closeDriver();
+});
+
+const writeFile = (name: string, lines: string[]): string => {
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, lines.join("\n") + "\n");
+  return filePath;
+};
+
+// Businesses as in SQLite; two of them share a name. Every row reaches Memgraph.
+const importer = (written: Transaction[]) =>
+  createImportService({
+    businessRepo: {
+      findAllBusinesses: async () => [
+        { business_id: "acme-id", name: "Acme", industry: "Retail" },
+        { business_id: "globex-id", name: "Globex", industry: "Energy" },
+        { business_id: "twin-1", name: "Twin", industry: "Retail" },
+        { business_id: "twin-2", name: "Twin", industry: "Retail" },
+      ],
+    },
+    graphRepo: {
+      createEdgesBatch: async (rows) => {
+        written.push(...rows);
+        return rows.map(({ id }) => ({ id, conflict: false }));
+      },
+    },
+    refreshRiskScores: () => undefined,
+  });
+
+test("CSV rows are resolved by ID or name, and invalid rows are reported by line", async () => {
+  const filePath = writeFile("parse.csv", [
+    "﻿From,To,Amount,Timestamp",
+    'acme,globex-id,"1,000.5",2024-01-01T00:00:00Z',
+    "acme-id,globex,250,2024-01-02T00:00:00Z",
+    "acme-id,twin,10,2024-01-03T00:00:00Z",
+    "acme-id,globex-id,abc,2024-01-04T00:00:00Z",
+    "acme-id,globex-id,10",
+    "acme-id,acme-id,10,2024-01-05T00:00:00Z",
+  ]);
+  const written: Transaction[] = [];
+  const { prepareImport, runImport, getJobErrors } = importer(written);
+
+  const job = await runImport(await prepareImport(filePath, "csv", "parse.csv"), filePath);
+
+  assert.equal(job.status, "completed");
+  assert.equal(job.rows_imported, 2);
+  assert.equal(job.rows_failed, 4);
+  assert.deepEqual(
+    written.map(({ from, to, amount }) => ({ from, to, amount })),
+    [
+      { from: "acme-id", to: "globex-id", amount: 250 },
+      { from: "acme-id", to: "acme-id", amount: 10 },
+    ]
+  );
+  const { items } = await getJobErrors(job.id, 0, 10);
+  assert.deepEqual(
+    items.map(({ line, field, message }) => ({ line, field, message })),
+    [
+      { line: 2, field: "amount", message: "must be a number" },
+      { line: 4, field: "to", message: 'business name "twin" is ambiguous' },
+      { line: 5, field: "amount", message: "must be a number" },
+      { line: 6, field: "row", message: "expected 4 columns but found 3" },
+    ]
+  );
+});
+
+test("importing the same file again resumes after the last committed row", async () => {
+  const filePath = writeFile("resume.ndjson", [
+    JSON.stringify({ from: "acme-id", to: "globex-id", amount: 1, timestamp: "2024-01-01T00:00:00Z" }),
+    "",
+    JSON.stringify({ from: "globex-id", to: "acme-id", amount: 2, timestamp: "2024-01-02T00:00:00Z" }),
+    "not json",
+  ]);
+  const written: Transaction[] = [];
+  const { prepareImport, runImport } = importer(written);
+
+  // The server stopped after committing the batch up to line 2
+  const interrupted = await prepareImport(filePath, "ndjson", "resume.ndjson");
+  await assert.rejects(prepareImport(filePath, "ndjson", "again"), ImportInProgressError);
+  await importRepo.recordProgress(interrupted.id, 2, 1, []);
+  await importRepo.markJobFailed(interrupted.id, "Server stopped");
+
+  const { prepareImport: prepareAfterRestart, runImport: runAfterRestart } = importer(written);
+  const resumed = await prepareAfterRestart(filePath, "ndjson", "resume.ndjson");
+  assert.equal(resumed.id, interrupted.id);
+  const job = await runAfterRestart(resumed, filePath);
+
+  assert.deepEqual(written.map((t) => t.amount), [2]);
+  assert.equal(job.rows_imported, 2);
+  assert.equal(job.rows_failed, 1);
+
+  // Finished files start a new job, whose rows get the same IDs so nothing is duplicated
+  const again = await runImport(await prepareImport(filePath, "ndjson", "resume.ndjson"), filePath);
+  assert.notEqual(again.id, job.id);
+  assert.deepEqual(written.map((t) => t.amount), [2, 1, 2]);
+  assert.equal(written[2].id, written[0].id);
+});
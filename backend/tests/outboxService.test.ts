@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import * as db from "../database";
+import * as graphRepo from "../repositories/graphRepository";
+import * as outboxRepo from "../repositories/outboxRepository";
+import { createOutboxService } from "../services/outboxService";
+import { migrateSqlite } from "../utils/migrate";
+import { Transaction } from "../types";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const unused = async (): Promise<never> => {
+  throw new Error("not used by this test");
+};
+
+before(async () => {
+  await migrateSqlite();
+});
+
+after(async () => {
+  await db.closeDatabase();
+  await graphRepo.closeDriver();
+});
+
+test("an event dispatched by its request is not applied again from the poller's batch", async () => {
+  const applied: string[] = [];
+  const published: string[] = [];
+  const { dispatchEvent, dispatchPending } = createOutboxService({
+    graphRepo: {
+      createOrFindNode: unused,
+      deleteNode: unused,
+      createEdge: async (id, from, to, amount, timestamp) => {
+        await delay(50);
+        applied.push(id);
+        return { id, from, to, amount, timestamp };
+      },
+    },
+    businessRepo: { restoreBusiness: unused },
+    refreshRiskScores: () => undefined,
+  });
+
+  const transaction = (id: string): Transaction => ({
+    id,
+    from: "a",
+    to: "b",
+    amount: 100,
+    timestamp: new Date().toISOString(),
+  });
+  await outboxRepo.enqueueEvent("create_transaction", transaction("first"));
+  const { id: eventId } = await outboxRepo.enqueueEvent("create_transaction", transaction("second"));
+
+  // The poller loads both events, and while it applies the first, the request handler applies the second
+  const polling = dispatchPending({
+    onTransactionApplied: async (t) => {
+      published.push(t.id);
+    },
+  });
+  await delay(10);
+  const dispatched = await dispatchEvent(eventId);
+  if (dispatched.applied) published.push("second");
+  await polling;
+
+  assert.deepEqual(applied.sort(), ["first", "second"]);
+  assert.deepEqual(published.sort(), ["first", "second"]);
+  assert.equal((await outboxRepo.findEventById(eventId))?.status, "done");
+
+  // Dispatching it again afterwards doesn't apply it either
+  assert.deepEqual(await dispatchEvent(eventId), { applied: false, done: true });
+  assert.equal(await dispatchPending(), 0);
+  assert.equal(applied.length, 2);
+});
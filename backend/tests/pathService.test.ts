@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createPathService } from "../services/pathService";
+import { enumerateSimplePaths } from "../utils/simplePaths";
+
+test("paths are searched over distinct business pairs, shortest first and without revisits", async () => {
+  // a→b, a→c, b→c, c→b, b→d, c→d; each pair may carry any number of transactions
+  const graph: Record<string, string[]> = { a: ["b", "c"], b: ["c", "d"], c: ["b", "d"] };
+  const expanded: string[][] = [];
+  const { findPaths } = createPathService({
+    graphRepo: {
+      findShortestPathLength: async () => null,
+      findNextHops: async (ids) => {
+        expanded.push([...ids]);
+        return ids.flatMap((id) => (graph[id] ?? []).map((to) => ({ from: id, to })));
+      },
+      findHopTransactions: async (hops) =>
+        new Map(hops.map(({ from, to }) => [`${from}>${to}`, { count: 3, total: 300, transactions: [] }])),
+    },
+    enrichNodes: async (ids) => new Map(ids.map((id) => [id, { id, name: null, industry: null }])),
+  });
+
+  const result = await findPaths({ from: "a", to: "d", mode: "all", maxHops: 3 });
+
+  assert.deepEqual(
+    result.paths.map((path) => path.nodes.map((node) => node.id)),
+    [
+      ["a", "b", "d"],
+      ["a", "c", "d"],
+      ["a", "b", "c", "d"],
+      ["a", "c", "b", "d"],
+    ]
+  );
+  assert.equal(result.truncated, false);
+  assert.equal(result.paths[0].steps[0].transactionCount, 3);
+  // Each business is expanded once, and the target never is
+  assert.deepEqual(expanded, [["a"], ["b", "c"]]);
+});
+
+test("a result cut at the limit is marked truncated", () => {
+  const adjacency = new Map([
+    ["a", ["b", "c"]],
+    ["b", ["d"]],
+    ["c", ["d"]],
+  ]);
+  assert.deepEqual(enumerateSimplePaths(adjacency, "a", "d", 1, 2, 1), {
+    paths: [["a", "b", "d"]],
+    truncated: true,
+  });
+  assert.equal(enumerateSimplePaths(adjacency, "a", "d", 1, 2, 2).truncated, false);
+});
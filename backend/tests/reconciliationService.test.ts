@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import * as db from "../database";
+import * as businessRepo from "../repositories/businessRepository";
+import * as graphRepo from "../repositories/graphRepository";
+import * as outboxRepo from "../repositories/outboxRepository";
+import { createReconciliationService } from "../services/reconciliationService";
+import { migrateSqlite } from "../utils/migrate";
+
+before(async () => {
+  await migrateSqlite();
+});
+
+after(async () => {
+  await db.closeDatabase();
+  await graphRepo.closeDriver();
+});
+
+// Memgraph has nodes for "solo" and "busy", which SQLite doesn't know
+const orphanGraph = {
+  getAllNodes: async () => [{ id: "solo" }, { id: "busy" }],
+  countEdgesByNode: async (id: string) => (id === "busy" ? 2 : 0),
+};
+
+test("graph changes Memgraph did not apply are reported as pending, not done", async () => {
+  const { repairDrift } = createReconciliationService({
+    businessRepo,
+    graphRepo: orphanGraph,
+    dispatchEvent: async () => ({ applied: false, done: false, error: "Memgraph unavailable" }),
+  });
+
+  const { actions } = await repairDrift({
+    missingInGraph: "create",
+    orphanNodes: "delete_if_isolated",
+    failedOutbox: "ignore",
+  });
+
+  assert.deepEqual(actions.deletedNodes, []);
+  assert.deepEqual(
+    actions.pending.map(({ business_id, operation, error }) => ({ business_id, operation, error })),
+    [{ business_id: "solo", operation: "delete_business", error: "Memgraph unavailable" }]
+  );
+  assert.deepEqual(actions.skipped.map((s) => s.business_id), ["busy"]);
+});
+
+test("imported orphans get a row without an outbox event", async () => {
+  const { pending } = await outboxRepo.countEventsByStatus();
+  const { repairDrift } = createReconciliationService({
+    businessRepo,
+    graphRepo: orphanGraph,
+    dispatchEvent: async () => {
+      throw new Error("nothing to dispatch");
+    },
+  });
+
+  const { actions } = await repairDrift({
+    missingInGraph: "ignore",
+    orphanNodes: "import",
+    failedOutbox: "ignore",
+  });
+
+  assert.deepEqual(actions.importedBusinesses, ["solo", "busy"]);
+  assert.equal((await businessRepo.findBusinessById("busy"))?.industry, "Unknown");
+  assert.equal((await outboxRepo.countEventsByStatus()).pending, pending);
+});
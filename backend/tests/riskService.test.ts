@@ -0,0 +1,65 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createRiskService } from "../services/riskService";
+import { Transaction } from "../types";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const transaction = (id: string, to: string): Transaction => ({
+  id,
+  from: "a",
+  to,
+  amount: 100,
+  timestamp: new Date().toISOString(),
+});
+
+test("transactions recorded during a rebuild are counted once, and requests don't wait for it", async () => {
+  // The rebuild reads t1, then t2 only after t2 and t3 have been recorded
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => (release = resolve));
+  const { getRiskScores, recordTransaction } = createRiskService({
+    graphRepo: {
+      streamEdges: async function* () {
+        yield transaction("t1", "b");
+        await released;
+        yield transaction("t2", "c");
+      },
+    },
+    alertRepo: { findLastAlertId: async () => 0, countAlertsByBusiness: async () => [] },
+    businessRepo: { countBusinesses: async () => 4 },
+    findCycles: async () => ({ cycles: [], scannedTransactions: 0, truncated: false }),
+  });
+
+  assert.equal(getRiskScores(["a"]).size, 0);
+  await delay(10);
+  recordTransaction(transaction("t2", "c"), []);
+  recordTransaction(transaction("t3", "d"), []);
+  release();
+  await delay(10);
+
+  const factors = new Map(getRiskScores(["a"]).get("a")!.factors.map((f) => [f.name, f.value]));
+  assert.equal(factors.get("centrality"), 3);
+  // 100 to each of three counterparties; counting t2 twice would make it 0.625
+  assert.equal(factors.get("counterpartyDiversity"), 0.667);
+});
+
+test("centrality is relative to every business, including those without transactions", async () => {
+  const { getRiskScores } = createRiskService({
+    graphRepo: {
+      streamEdges: async function* () {
+        yield transaction("t1", "b");
+      },
+    },
+    alertRepo: { findLastAlertId: async () => 0, countAlertsByBusiness: async () => [] },
+    // a, b and three businesses that haven't transacted yet
+    businessRepo: { countBusinesses: async () => 5 },
+    findCycles: async () => ({ cycles: [], scannedTransactions: 0, truncated: false }),
+  });
+
+  getRiskScores(["a"]);
+  await delay(10);
+
+  const centrality = getRiskScores(["a"]).get("a")!.factors.find((f) => f.name === "centrality")!;
+  assert.equal(centrality.score, 0.25);
+  assert.equal(centrality.description, "Transacts with 1 of 4 other businesses");
+});
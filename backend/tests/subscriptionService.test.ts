@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Socket } from "socket.io";
+import { getEventPosition, recordEvent } from "../services/eventLogService";
+import { replayMissedEvents } from "../services/notificationService";
+import { getSubscriptions, restoreSubscriptions } from "../services/subscriptionService";
+import { validate } from "../validation";
+import { resumeRequestSchema } from "../validation/schemas";
+import { TransactionWithIndustries } from "../types";
+
+const transaction = (id: string, to: string): TransactionWithIndustries => ({
+  id,
+  from: "a",
+  to,
+  amount: 100,
+  timestamp: new Date().toISOString(),
+  fromIndustry: "Retail",
+  toIndustry: "Retail",
+});
+
+test("a reconnecting client gets its subscriptions back before missed events are replayed", () => {
+  const { epoch, seq } = getEventPosition();
+  recordEvent("alert", { id: 1 }, transaction("t1", "b"));
+  recordEvent("alert", { id: 2 }, transaction("t2", "c"));
+  recordEvent("businessUpdated", { business_id: "d" });
+
+  const received: unknown[] = [];
+  const socket = {
+    data: {},
+    emit: (_event: string, payload: unknown) => received.push(payload),
+  } as unknown as Socket;
+
+  // As sent by the frontend in the handshake
+  const { value, errors } = validate(resumeRequestSchema, {
+    epoch,
+    lastSeq: seq,
+    subscriptions: [{ id: "s1", filter: { businessIds: ["c"] }, createdAt: new Date().toISOString() }],
+  });
+  assert.deepEqual(errors, []);
+  restoreSubscriptions(socket, value.subscriptions!);
+
+  assert.equal(replayMissedEvents(socket, epoch, seq), true);
+  assert.deepEqual(received, [{ id: 2 }, { business_id: "d" }]);
+  assert.equal(getSubscriptions(socket)[0].id, "s1");
+});
+
+test("restored subscriptions are validated like new ones", () => {
+  const { errors } = validate(resumeRequestSchema, {
+    subscriptions: [{ id: "s1", filter: {} }, { filter: { minAmount: 5 } }],
+  });
+  assert.deepEqual(
+    errors.map((error) => error.field),
+    ["subscriptions.0.body", "subscriptions.1.id"]
+  );
+});
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import * as db from "../database";
+import * as businessRepo from "../repositories/businessRepository";
+import * as graphRepo from "../repositories/graphRepository";
+import { validate } from "../validation";
+import {
+  checkFilterRanges,
+  checkTransactionParties,
+  createTransactionSchema,
+  generateMockTransactionsSchema,
+  transactionFiltersSchema,
+} from "../validation/schemas";
+import { migrateSqlite } from "../utils/migrate";
+
+before(async () => {
+  await migrateSqlite();
+});
+
+after(async () => {
+  await db.closeDatabase();
+  await graphRepo.closeDriver();
+});
+
+test("a transaction body reports every invalid field and normalizes the timestamp", () => {
+  const invalid = validate(createTransactionSchema, { from: " ", amount: "10", timestamp: "yesterday" });
+  assert.deepEqual(invalid.errors, [
+    { field: "from", message: "must not be empty" },
+    { field: "to", message: "is required" },
+    { field: "amount", message: "must be a number" },
+    { field: "timestamp", message: "must be an ISO 8601 date" },
+  ]);
+
+  const { value, errors } = validate(createTransactionSchema, {
+    from: "a",
+    to: "b",
+    amount: 12.5,
+    timestamp: "2024-01-01T01:00:00+01:00",
+    extra: "dropped",
+  });
+  assert.deepEqual(errors, []);
+  assert.deepEqual(value, { from: "a", to: "b", amount: 12.5, timestamp: "2024-01-01T00:00:00.000Z" });
+});
+
+test("query strings are coerced, and amounts must be numbers in a coherent range", () => {
+  assert.deepEqual(validate(transactionFiltersSchema, { minAmount: "abc" }, { coerce: true }).errors, [
+    { field: "minAmount", message: "must be a number" },
+  ]);
+
+  const { value } = validate(transactionFiltersSchema, { minAmount: "50", maxAmount: "10" }, { coerce: true });
+  assert.deepEqual(value, { minAmount: 50, maxAmount: 10 });
+  assert.deepEqual(checkFilterRanges(value).map((error) => error.field), ["maxAmount"]);
+});
+
+test("the mock generator requires a transaction count", () => {
+  assert.deepEqual(validate(generateMockTransactionsSchema, {}).errors, [
+    { field: "numTransactions", message: "is required" },
+  ]);
+  assert.deepEqual(validate(generateMockTransactionsSchema, { numTransactions: 1.5 }).errors, [
+    { field: "numTransactions", message: "must be an integer" },
+  ]);
+});
+
+test("transaction parties must exist, and may be the same business", async () => {
+  await businessRepo.createBusiness("acme", "Acme", "Retail");
+  const transaction = { amount: 10, timestamp: new Date().toISOString() };
+
+  assert.deepEqual(await checkTransactionParties({ ...transaction, from: "acme", to: "nobody" }), [
+    { field: "to", message: 'unknown business ID "nobody"' },
+  ]);
+  assert.deepEqual(await checkTransactionParties({ ...transaction, from: "acme", to: "acme" }), []);
+});
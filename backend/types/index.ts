@@ -1,4 +1,5 @@
 export interface Transaction {
+  id: string;
   from: string;
   to: string;
   amount: number;
@@ -9,10 +10,13 @@ export interface GraphNode {
   id: string;
   label?: string;
   industry?: string | null;
+  // Trading cluster from community detection; businesses without transactions form their own cluster
+  clusterId?: number;
 }
 
 export interface GraphEdge {
-  id: number;
+  // "source->target", the same for the pair of businesses across snapshots and deltas
+  id: string;
   source: string;
   target: string;
   transactionCount: number;
@@ -25,6 +29,11 @@ export interface Business {
   industry: string;
 }
 
+export interface BusinessRow extends Business {
+  id: number;
+  created_at: string;
+}
+
 export interface GraphUpdatePayload {
   nodes: GraphNode[];
   edges: GraphEdge[];
@@ -37,6 +46,7 @@ export interface BusinessDetailsResult {
 }
 
 export interface EnrichedTransaction {
+  id: string;
   from: string;
   to: string;
   amount: number;
@@ -53,4 +63,818 @@ export interface CreateTransactionDto {
 export interface CreateBusinessDto {
   name: string;
   industry: string;
-}
\ No newline at end of file
+}
+
+export interface UpdateBusinessDto {
+  name?: string;
+  industry?: string;
+}
+
+export interface BusinessDeletedPayload {
+  business_id: string;
+  removedTransactions: number;
+}
+
+export interface OutboxPayloads {
+  upsert_business: { business_id: string };
+  // business is the deleted row, restored if the graph refuses the delete. Both are absent on
+  // events enqueued before the refusal moved into the graph write; those deletes were already allowed.
+  delete_business: { business_id: string; cascade?: boolean; business?: BusinessRow };
+  create_transaction: Transaction & { idempotencyKey?: string };
+}
+
+export type OutboxOperation = keyof OutboxPayloads;
+
+// "processing" while one dispatcher applies the event; available_at is then when its claim expires
+export type OutboxStatus = "pending" | "processing" | "done" | "failed";
+
+interface OutboxEventBase {
+  id: number;
+  status: OutboxStatus;
+  attempts: number;
+  last_error: string | null;
+  idempotency_key: string | null;
+  available_at: number;
+  created_at: string;
+  processed_at: string | null;
+}
+
+export type OutboxEvent = {
+  [Op in OutboxOperation]: OutboxEventBase & {
+    operation: Op;
+    payload: OutboxPayloads[Op];
+  };
+}[OutboxOperation];
+
+export type MissingInGraphPolicy = "create" | "ignore";
+
+export type OrphanNodePolicy = "ignore" | "delete" | "delete_if_isolated" | "import";
+
+export type FailedOutboxPolicy = "retry" | "ignore";
+
+export interface ReconciliationPolicy {
+  missingInGraph: MissingInGraphPolicy;
+  orphanNodes: OrphanNodePolicy;
+  failedOutbox: FailedOutboxPolicy;
+}
+
+export interface OrphanNode {
+  business_id: string;
+  transactionCount: number;
+}
+
+export interface DriftReport {
+  generatedAt: string;
+  inSync: boolean;
+  sqliteBusinessCount: number;
+  graphNodeCount: number;
+  missingInGraph: Business[];
+  orphanNodes: OrphanNode[];
+  pendingOutboxEvents: number;
+  failedOutboxEvents: Pick<
+    OutboxEvent,
+    "id" | "operation" | "attempts" | "last_error"
+  >[];
+}
+
+export interface RepairResult {
+  policy: ReconciliationPolicy;
+  before: DriftReport;
+  actions: {
+    createdNodes: string[];
+    deletedNodes: string[];
+    importedBusinesses: string[];
+    retriedOutboxEvents: number[];
+    skipped: { business_id: string; reason: string }[];
+    // Graph changes left in the outbox, e.g. because Memgraph is unavailable
+    pending: { business_id: string; operation: OutboxOperation; outboxEventId: number; error?: string }[];
+  };
+  after: DriftReport;
+}
+
+export interface TransactionFilters {
+  from?: string;
+  to?: string;
+  // Either side of the transaction
+  business?: string;
+  // The other side, when business is set
+  counterparty?: string;
+  // Either side belongs to this industry
+  industry?: string;
+  startDate?: string;
+  endDate?: string;
+  minAmount?: number;
+  maxAmount?: number;
+}
+
+/**
+ * Transaction filters as understood by Memgraph: industries are resolved to business IDs in SQLite first
+ */
+export type EdgeFilters = Omit<TransactionFilters, "industry"> & {
+  businessIds?: string[];
+};
+
+export type VolumeInterval = "hour" | "day" | "week";
+
+export interface VolumeQuery extends TransactionFilters {
+  interval: VolumeInterval;
+}
+
+export interface VolumeStats {
+  count: number;
+  sum: number;
+  min: number | null;
+  max: number | null;
+  avg: number | null;
+}
+
+export interface VolumeBucket extends VolumeStats {
+  bucketStart: string;
+}
+
+export interface VolumeReport {
+  interval: VolumeInterval;
+  buckets: VolumeBucket[];
+  totals: VolumeStats;
+}
+
+export type TransactionSortField = "timestamp" | "amount";
+
+export type SortOrder = "asc" | "desc";
+
+export interface PaginationQuery {
+  limit?: number;
+  cursor?: string;
+  sort?: TransactionSortField;
+  order?: SortOrder;
+  includeTotal?: boolean;
+}
+
+/**
+ * Position after the last row of a page, keyed on (sort value, transaction id)
+ */
+export interface TransactionCursor {
+  sort: TransactionSortField;
+  order: SortOrder;
+  value: string | number;
+  id: string;
+}
+
+export interface PageRequest {
+  limit: number;
+  sort: TransactionSortField;
+  order: SortOrder;
+  after?: TransactionCursor;
+  includeTotal: boolean;
+}
+
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+  limit: number;
+  total?: number;
+}
+
+export type TransactionListQuery = TransactionFilters & PaginationQuery;
+
+export interface BusinessTransactionsQuery extends PaginationQuery {
+  from?: string;
+  to?: string;
+}
+
+export interface BusinessIdParams {
+  business_id: string;
+}
+
+export interface DeleteBusinessQuery {
+  cascade?: boolean;
+}
+
+export interface GenerateMockTransactionsDto {
+  numTransactions: number;
+}
+
+export interface StartMockGeneratorDto {
+  numTransactions: number;
+  intervalSeconds?: number;
+}
+
+export type RepairPolicyDto = Partial<ReconciliationPolicy>;
+
+export type ImportFormat = "csv" | "ndjson";
+
+export type ImportJobStatus = "running" | "completed" | "failed";
+
+export interface ImportJob {
+  id: number;
+  source: string;
+  format: ImportFormat;
+  checksum: string;
+  status: ImportJobStatus;
+  // Every row up to and including this line has been imported or reported
+  last_line: number;
+  rows_imported: number;
+  rows_failed: number;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface ImportRowError {
+  id?: number;
+  line: number;
+  field: string;
+  message: string;
+  raw: string | null;
+}
+
+/**
+ * One record of an import file. from/to may be business IDs or business names.
+ */
+export interface ImportRowDto {
+  id?: string;
+  from: string;
+  to: string;
+  amount: number;
+  timestamp: string;
+}
+
+export interface ImportQuery {
+  format?: ImportFormat;
+  source?: string;
+}
+
+export interface ImportJobParams {
+  id: number;
+}
+
+export interface ImportErrorsQuery {
+  limit?: number;
+  // ID of the last error on the previous page
+  cursor?: number;
+}
+
+export type ExportFormat = "csv" | "ndjson" | "json";
+
+export interface ExportQuery extends TransactionFilters {
+  format: ExportFormat;
+}
+
+/**
+ * An exported transaction carries both the business IDs and their names
+ */
+export interface ExportedTransaction {
+  id: string;
+  from: string;
+  fromName: string | null;
+  to: string;
+  toName: string | null;
+  amount: number;
+  timestamp: string;
+}
+
+export type GraphExportFormat = "graphml" | "gexf" | "cypher";
+
+export interface GraphExportQuery extends TransactionFilters {
+  format: GraphExportFormat;
+}
+
+/**
+ * A business node with its SQLite attributes, as returned by graph queries and exports
+ */
+export interface EnrichedNode {
+  id: string;
+  name: string | null;
+  industry: string | null;
+}
+
+export type PathDirection = "outgoing" | "incoming" | "any";
+
+export type PathMode = "shortest" | "all";
+
+/**
+ * Constraints every transaction along a path must satisfy
+ */
+export interface PathConstraints {
+  startDate?: string;
+  endDate?: string;
+  minAmount?: number;
+}
+
+export interface PathQuery extends PathConstraints {
+  from: string;
+  to: string;
+  mode?: PathMode;
+  maxHops?: number;
+  direction?: PathDirection;
+  limit?: number;
+}
+
+/**
+ * One hop of a path and the transactions between its two businesses
+ */
+export interface PathStep {
+  from: string;
+  to: string;
+  transactionCount: number;
+  totalAmount: number;
+  // Most recent transactions first, capped per step
+  transactions: Transaction[];
+}
+
+export interface BusinessPath {
+  hops: number;
+  nodes: EnrichedNode[];
+  steps: PathStep[];
+}
+
+export interface PathSearchResult {
+  from: string;
+  to: string;
+  mode: PathMode;
+  direction: PathDirection;
+  paths: BusinessPath[];
+  // More paths may exist than were returned: the limit was reached, or the search gave up in a dense neighbourhood
+  truncated: boolean;
+}
+
+export interface CycleQuery {
+  maxLength?: number;
+  startDate?: string;
+  endDate?: string;
+  // Longest time allowed between the first and last transaction of a cycle
+  maxSpanHours?: number;
+  // How much smaller each transaction may be than the previous one, as a fraction
+  tolerance?: number;
+  minAmount?: number;
+  business?: string;
+  limit?: number;
+}
+
+/**
+ * Money that left a business and came back to it through a chain of later and later transactions
+ */
+export interface TransactionCycle {
+  length: number;
+  businesses: EnrichedNode[];
+  transactions: Transaction[];
+  startAmount: number;
+  returnedAmount: number;
+  // returnedAmount / startAmount
+  retainedRatio: number;
+  startedAt: string;
+  endedAt: string;
+  spanSeconds: number;
+}
+
+export interface CycleSearchResult {
+  cycles: TransactionCycle[];
+  scannedTransactions: number;
+  // The search stopped early; narrow the time window or lower maxLength to see every cycle
+  truncated: boolean;
+}
+
+// "fan_in": many small payments in, then one large payment out; "fan_out": the reverse
+export type StructuringPattern = "fan_in" | "fan_out";
+
+export interface StructuringThresholds {
+  // How long the small payments may be spread out after (fan-out) or before (fan-in) the large one
+  windowHours: number;
+  minCounterparties: number;
+  maxSmallAmount: number;
+  minLargeAmount: number;
+  // Sum of the small payments relative to the large one, for fan-out; the inverse for fan-in
+  minConcentration: number;
+}
+
+export interface StructuringQuery extends Partial<StructuringThresholds> {
+  pattern?: StructuringPattern;
+  business?: string;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+}
+
+/**
+ * A business that gathered many small payments into one large one, or split a large payment into many small ones
+ */
+export interface StructuringDetection {
+  pattern: StructuringPattern;
+  business: EnrichedNode;
+  largeTransaction: Transaction;
+  smallTransactions: Transaction[];
+  // Distinct senders (fan-in) or recipients (fan-out) of the small payments
+  counterpartyCount: number;
+  smallAmount: number;
+  concentration: number;
+  windowStart: string;
+  windowEnd: string;
+}
+
+export interface StructuringSearchResult {
+  detections: StructuringDetection[];
+  thresholds: StructuringThresholds;
+  scannedTransactions: number;
+  // The scan stopped early; narrow the time window to see every detection
+  truncated: boolean;
+}
+
+export type AlertSeverity = "low" | "medium" | "high" | "critical";
+
+export type AlertStatus = "open" | "acknowledged" | "resolved";
+
+// The transaction amount is at least minAmount
+export interface AmountThresholdRule {
+  type: "amount_threshold";
+  minAmount: number;
+}
+
+// Money moves from a business in one industry to a business in another; an omitted side matches any industry
+export interface IndustryPairRule {
+  type: "industry_pair";
+  fromIndustry?: string;
+  toIndustry?: string;
+}
+
+// A business sends (or receives) more than maxCount transactions, or more than maxAmount in total, within the window
+export interface VelocityRule {
+  type: "velocity";
+  windowMinutes: number;
+  maxCount?: number;
+  maxAmount?: number;
+  direction?: "outgoing" | "incoming";
+}
+
+// The first transaction from the sender to this recipient
+export interface NewCounterpartyRule {
+  type: "new_counterparty";
+  minAmount?: number;
+}
+
+export type AlertRuleDefinition =
+  | AmountThresholdRule
+  | IndustryPairRule
+  | VelocityRule
+  | NewCounterpartyRule;
+
+export type AlertRuleType = AlertRuleDefinition["type"];
+
+export interface AlertRule {
+  id: number;
+  name: string;
+  description: string | null;
+  severity: AlertSeverity;
+  enabled: boolean;
+  definition: AlertRuleDefinition;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateAlertRuleDto {
+  name: string;
+  description?: string;
+  severity: AlertSeverity;
+  enabled?: boolean;
+  definition: AlertRuleDefinition;
+}
+
+export type UpdateAlertRuleDto = Partial<CreateAlertRuleDto>;
+
+export interface Alert {
+  id: number;
+  // null once the rule has been deleted
+  rule_id: number | null;
+  rule_name: string;
+  severity: AlertSeverity;
+  status: AlertStatus;
+  transaction_id: string;
+  transaction: Transaction;
+  message: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AlertListQuery {
+  status?: AlertStatus;
+  severity?: AlertSeverity;
+  ruleId?: number;
+  limit?: number;
+  // ID of the last alert of the previous page
+  cursor?: number;
+}
+
+export interface UpdateAlertDto {
+  status: AlertStatus;
+}
+
+export interface AlertRuleParams {
+  id: number;
+}
+
+export interface AlertParams {
+  id: number;
+}
+
+export type RiskFactorName =
+  | "centrality"
+  | "counterpartyDiversity"
+  | "amountVolatility"
+  | "cycleParticipation"
+  | "alertHistory";
+
+export interface RiskFactor {
+  name: RiskFactorName;
+  // The measured signal, e.g. a number of counterparties or cycles
+  value: number;
+  // The signal mapped to 0-1
+  score: number;
+  weight: number;
+  // Points this factor adds to the 0-100 risk score
+  contribution: number;
+  description: string;
+}
+
+export interface RiskScore {
+  score: number;
+  factors: RiskFactor[];
+  // When the cycle and alert counts behind the score were last recomputed from scratch
+  rebuiltAt: string;
+}
+
+export interface BusinessWithRisk extends Business {
+  // null until the scores have first been computed from the transaction graph
+  risk: RiskScore | null;
+}
+
+export interface RiskUpdatedPayload {
+  business_id: string;
+  risk: RiskScore;
+}
+
+// What an edge between two businesses weighs: its number of transactions or their total amount
+export type MetricsWeight = "count" | "amount";
+
+export type MetricsSortField = "pageRank" | "betweenness" | "inDegree" | "outDegree";
+
+export interface CentralityMetrics {
+  business_id: string;
+  pageRank: number;
+  // Share of weighted shortest paths between other businesses that pass through this one, 0-1
+  betweenness: number;
+  // Distinct senders and recipients
+  inDegree: number;
+  outDegree: number;
+  // Total weight of incoming and outgoing edges
+  inWeight: number;
+  outWeight: number;
+}
+
+export interface BusinessMetrics extends CentralityMetrics {
+  business: EnrichedNode;
+}
+
+export interface MetricsQuery {
+  weight?: MetricsWeight;
+  sort?: MetricsSortField;
+  limit?: number;
+}
+
+export interface BusinessMetricsQuery {
+  weight?: MetricsWeight;
+}
+
+export interface BusinessMetricsReport extends BusinessMetrics {
+  weight: MetricsWeight;
+  computedAt: string;
+}
+
+export interface MetricsReport {
+  weight: MetricsWeight;
+  sort: MetricsSortField;
+  computedAt: string;
+  businessCount: number;
+  metrics: BusinessMetrics[];
+}
+
+export interface CommunityCluster {
+  clusterId: number;
+  size: number;
+  members: EnrichedNode[];
+  internalTransactionCount: number;
+  internalVolume: number;
+  // Volume of transactions with businesses in other clusters
+  outgoingVolume: number;
+  incomingVolume: number;
+}
+
+// Transactions from members of one cluster to members of another
+export interface ClusterFlow {
+  source: number;
+  target: number;
+  transactionCount: number;
+  transactionAmount: number;
+}
+
+export interface CommunityReport {
+  clusters: CommunityCluster[];
+  flows: ClusterFlow[];
+  // Weighted modularity of the partition, from -0.5 to 1; higher means tighter clusters
+  modularity: number;
+}
+
+export interface NeighborhoodQuery {
+  // Businesses to start from
+  seeds: string[];
+  hops?: number;
+  // Most businesses to return, seeds included
+  maxNodes?: number;
+  startDate?: string;
+  endDate?: string;
+  minAmount?: number;
+}
+
+export interface NeighborhoodNode extends GraphNode {
+  // Number of hops from the nearest seed
+  hop: number;
+}
+
+/**
+ * The subgraph within a number of hops of the seed businesses, following transactions in either direction
+ */
+export interface Neighborhood {
+  seeds: string[];
+  hops: number;
+  nodes: NeighborhoodNode[];
+  edges: GraphEdge[];
+  // Whether maxNodes cut off businesses within reach
+  truncated: boolean;
+}
+
+export interface GraphSnapshot {
+  // Version of the last graph delta the snapshot includes
+  version: number;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+/**
+ * The change a new transaction makes to the graph. Versions are consecutive, so a client
+ * that sees a gap has missed a delta and should request a snapshot.
+ */
+export interface GraphDelta {
+  version: number;
+  // The last version sent to this client, which differs from version - 1 when its subscriptions filtered deltas out
+  previousVersion: number;
+  // The aggregated edge between the transaction's businesses, after the transaction
+  edge: GraphEdge;
+  // Both businesses, for clients that don't have them yet
+  nodes: GraphNode[];
+  // The transaction, with business names in place of IDs
+  newTransaction: Transaction;
+}
+
+/**
+ * Which transactions a client wants events for. Every given criterion must match.
+ */
+export interface SubscriptionFilter {
+  // Either party is one of these businesses
+  businessIds?: string[];
+  // Either party is in one of these industries
+  industries?: string[];
+  minAmount?: number;
+  maxAmount?: number;
+}
+
+export interface Subscription {
+  id: string;
+  filter: SubscriptionFilter;
+  createdAt: string;
+}
+
+export interface UnsubscribeRequest {
+  // Omit to remove every subscription of the client
+  id?: string;
+}
+
+export interface SocketSubscriptions {
+  socketId: string;
+  subscriptions: Subscription[];
+}
+
+export interface TransactionWithIndustries extends Transaction {
+  fromIndustry: string | null;
+  toIndustry: string | null;
+}
+
+// Position of an event in the event log, sent with every broadcast event
+export interface EventPosition {
+  // Identifies the server run; sequence numbers restart with every run
+  epoch: string;
+  seq: number;
+}
+
+export interface EventLogEntry {
+  seq: number;
+  event: string;
+  payload: unknown;
+  // The transaction the event is about, for events only sent to matching subscriptions
+  scope?: TransactionWithIndustries;
+}
+
+/**
+ * Sent in the Socket.IO handshake by a reconnecting client
+ */
+export interface ResumeRequest {
+  // Position of the last event the client received
+  epoch?: string;
+  lastSeq?: number;
+  // Version of the last graph delta the client applied
+  graphVersion?: number;
+  // The client's subscriptions, restored with their IDs before missed events are replayed
+  subscriptions?: Subscription[];
+}
+
+// Each role can do everything the roles before it can: viewers read, analysts also write, admins also manage keys and the generator
+export type ApiKeyRole = "viewer" | "analyst" | "admin";
+
+export interface ApiKey {
+  id: number;
+  name: string;
+  role: ApiKeyRole;
+  // First characters of the key, to tell keys apart without storing them
+  prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+// Only returned when the key is issued; just its hash is stored
+export interface IssuedApiKey extends ApiKey {
+  key: string;
+}
+
+export interface CreateApiKeyDto {
+  name: string;
+  role: ApiKeyRole;
+}
+
+export interface ApiKeyParams {
+  id: number;
+}
+
+/**
+ * Who is making a request. Keys configured outside the database, like ADMIN_API_KEY, have no id.
+ */
+export interface Principal {
+  keyId: number | null;
+  name: string;
+  role: ApiKeyRole;
+}
+
+// "aborted" when the client went away before the response was sent
+export type AuditOutcome = "success" | "failure" | "aborted";
+
+/**
+ * One mutating API call. Each entry's hash covers its fields and the previous entry's hash,
+ * so changing or removing an entry breaks the chain from there on.
+ */
+export interface AuditEntry {
+  id: number;
+  created_at: string;
+  // Name of the API key, or "anonymous" for requests without a valid key
+  actor: string;
+  actor_key_id: number | null;
+  role: ApiKeyRole | null;
+  ip: string | null;
+  method: string;
+  path: string;
+  status_code: number | null;
+  outcome: AuditOutcome;
+  // SHA-256 of the request's query and JSON body
+  payload_digest: string;
+  prev_hash: string;
+  hash: string;
+}
+
+export type NewAuditEntry = Omit<AuditEntry, "id" | "prev_hash" | "hash">;
+
+export interface AuditListQuery {
+  actor?: string;
+  method?: string;
+  // Matches paths starting with this
+  path?: string;
+  outcome?: AuditOutcome;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+  // ID of the last entry of the previous page
+  cursor?: number;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  // The first entry whose hash doesn't match, or null if the chain is intact
+  brokenAt: number | null;
+}
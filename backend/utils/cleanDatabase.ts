@@ -1,4 +1,6 @@
+import "dotenv/config";
 import neo4j from 'neo4j-driver';
+import * as db from '../database';
 
 const MEMGRAPH_URL = process.env.MEMGRAPH_URL || 'bolt://localhost:7687';
 
@@ -11,7 +13,8 @@ export async function clearMemgraphData(): Promise<void> {
         await session.run('MATCH ()-[r]->() DELETE r');
         console.log('Cleared all Memgraph relationships');
         
-        await session.run('MATCH (n) DELETE n');
+        // Indexes and constraints survive, so keep the record of the migrations that created them
+        await session.run('MATCH (n) WHERE NOT n:SchemaMigration DELETE n');
         console.log('Cleared all Memgraph nodes');
     } catch (error) {
         console.error('Error clearing Memgraph data:', error);
@@ -20,4 +23,43 @@ export async function clearMemgraphData(): Promise<void> {
         await session.close();
         await driver.close();
     }
-}
\ No newline at end of file
+}
+
+// Delete all rows from the data tables, keeping the schema and its migration history
+export async function clearSqliteData(): Promise<void> {
+    try {
+        await db.exec(`
+            DELETE FROM alerts;
+            DELETE FROM import_errors;
+            DELETE FROM import_jobs;
+            DELETE FROM graph_outbox;
+            DELETE FROM businesses;
+        `);
+        console.log('Cleared all SQLite data');
+    } catch (error) {
+        console.error('Error clearing SQLite data:', (error as Error).message);
+        throw error;
+    }
+}
+
+// Destroy all data in both stores
+export async function resetAllData(): Promise<void> {
+    await clearMemgraphData();
+    await clearSqliteData();
+}
+
+// Only reset if this file is executed directly, and only with an explicit --yes
+if (require.main === module) {
+    if (!process.argv.includes('--yes')) {
+        console.error('This deletes all businesses and transactions. Re-run with --yes to confirm.');
+        process.exitCode = 1;
+    } else {
+        resetAllData()
+            .then(() => console.log('All data deleted'))
+            .catch(err => {
+                console.error('Error resetting data:', err);
+                process.exitCode = 1;
+            })
+            .finally(() => db.closeDatabase());
+    }
+}
@@ -0,0 +1,70 @@
+import { GraphEdge } from "../types";
+
+const MAX_ITERATIONS = 100;
+
+/**
+ * Group businesses into trading clusters with weighted label propagation. Edges are treated
+ * as undirected and weighted by amount. Every business starts in its own cluster and repeatedly
+ * joins the cluster it trades the most with, until nothing changes. Nodes are visited in ID
+ * order and ties go to the current cluster, then the lowest one, so the result is deterministic.
+ * @returns Cluster ID per business, numbered from 0 by cluster size, largest first
+ */
+export const detectCommunities = (
+  nodeIds: string[],
+  edges: GraphEdge[]
+): Map<string, number> => {
+  const ids = Array.from(
+    new Set([...nodeIds, ...edges.flatMap((edge) => [edge.source, edge.target])])
+  ).sort();
+  const index = new Map(ids.map((id, i) => [id, i]));
+
+  // Undirected neighbour weights, with both directions of a pair added together
+  const neighbours: Map<number, number>[] = ids.map(() => new Map());
+  edges.forEach((edge) => {
+    if (edge.source === edge.target || edge.transactionAmount <= 0) return;
+    const u = index.get(edge.source)!;
+    const v = index.get(edge.target)!;
+    neighbours[u].set(v, (neighbours[u].get(v) ?? 0) + edge.transactionAmount);
+    neighbours[v].set(u, (neighbours[v].get(u) ?? 0) + edge.transactionAmount);
+  });
+
+  const labels = ids.map((_, i) => i);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = false;
+
+    labels.forEach((current, u) => {
+      if (neighbours[u].size === 0) return;
+      const weights = new Map<number, number>();
+      neighbours[u].forEach((w, v) => {
+        weights.set(labels[v], (weights.get(labels[v]) ?? 0) + w);
+      });
+
+      const heaviest = Math.max(...weights.values());
+      if ((weights.get(current) ?? 0) === heaviest) return;
+      const best = Math.min(
+        ...Array.from(weights).filter(([, w]) => w === heaviest).map(([label]) => label)
+      );
+      labels[u] = best;
+      changed = true;
+    });
+
+    if (!changed) break;
+  }
+
+  // Renumber: largest cluster first, then by its first member
+  const members = new Map<number, number[]>();
+  labels.forEach((label, i) => {
+    const list = members.get(label);
+    if (list) list.push(i);
+    else members.set(label, [i]);
+  });
+  const ordered = Array.from(members.values()).sort(
+    (a, b) => b.length - a.length || a[0] - b[0]
+  );
+
+  const clusters = new Map<string, number>();
+  ordered.forEach((group, clusterId) => {
+    group.forEach((i) => clusters.set(ids[i], clusterId));
+  });
+  return clusters;
+};
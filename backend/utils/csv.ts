@@ -0,0 +1,84 @@
+/**
+ * Streaming RFC 4180 CSV parser: quoted fields may contain commas, doubled quotes and line breaks.
+ * Yields each record with the line number it starts on; blank lines are skipped.
+ */
+export async function* parseCsv(
+  chunks: AsyncIterable<string | Buffer>
+): AsyncGenerator<{ line: number; fields: string[] }> {
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  // A quote inside a quoted field is either an escaped quote or the end of the field
+  let pendingQuote = false;
+  let line = 1;
+  let recordLine = 1;
+  let lastChar = "";
+
+  const endRecord = () => {
+    fields.push(field);
+    const record = { line: recordLine, fields };
+    fields = [];
+    field = "";
+    return record;
+  };
+  const isBlank = (record: { fields: string[] }) =>
+    record.fields.length === 1 && record.fields[0] === "";
+
+  for await (const chunk of chunks) {
+    const text = typeof chunk === "string" ? chunk : chunk.toString("utf8");
+
+    for (const char of text) {
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          field += '"';
+          lastChar = char;
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          if (char === "\n") line++;
+          field += char;
+        }
+      } else if (char === '"' && field === "") {
+        inQuotes = true;
+      } else if (char === ",") {
+        fields.push(field);
+        field = "";
+      } else if (char === "\n") {
+        // Treat CRLF like LF
+        if (lastChar === "\r" && field.endsWith("\r")) field = field.slice(0, -1);
+        const record = endRecord();
+        line++;
+        recordLine = line;
+        if (!isBlank(record)) yield record;
+      } else {
+        field += char;
+      }
+      lastChar = char;
+    }
+  }
+
+  if (inQuotes && !pendingQuote) {
+    throw new Error(`Unterminated quoted field starting on line ${recordLine}`);
+  }
+  if (field.endsWith("\r")) field = field.slice(0, -1);
+  const record = endRecord();
+  if (!isBlank(record)) yield record;
+}
+
+/**
+ * Format values as one CSV record, quoting fields that contain commas, quotes or line breaks
+ */
+export const formatCsvRow = (values: (string | number | null | undefined)[]): string =>
+  values
+    .map((value) => {
+      const text = value === null || value === undefined ? "" : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(",") + "\r\n";
@@ -0,0 +1,34 @@
+import { SortOrder, TransactionCursor, TransactionSortField } from "../types";
+
+const SORT_FIELDS: TransactionSortField[] = ["timestamp", "amount"];
+const SORT_ORDERS: SortOrder[] = ["asc", "desc"];
+
+/**
+ * Encode a cursor as an opaque base64url token
+ */
+export const encodeCursor = (cursor: TransactionCursor): string =>
+  Buffer.from(
+    JSON.stringify([cursor.sort, cursor.order, cursor.value, cursor.id])
+  ).toString("base64url");
+
+/**
+ * Decode a cursor token
+ * @returns The cursor, or null if the token is malformed
+ */
+export const decodeCursor = (token: string): TransactionCursor | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+    if (!Array.isArray(decoded) || decoded.length !== 4) return null;
+
+    const [sort, order, value, id] = decoded;
+    if (!SORT_FIELDS.includes(sort) || !SORT_ORDERS.includes(order)) return null;
+    if (typeof id !== "string") return null;
+    if (sort === "amount" ? typeof value !== "number" : typeof value !== "string") {
+      return null;
+    }
+
+    return { sort, order, value, id };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,62 @@
+import "dotenv/config";
+import path from 'path';
+import * as importService from '../services/importService';
+import * as graphRepo from '../repositories/graphRepository';
+import * as db from '../database';
+import { ImportFormat } from '../types';
+
+const ERROR_PREVIEW_LIMIT = 20;
+
+// Import a CSV or NDJSON file of transactions; running it again on the same file resumes an unfinished import
+export const importTransactionsFile = async (argv: string[]): Promise<boolean> => {
+  const filePath = argv.find(arg => !arg.startsWith('--'));
+  const formatArg = argv.find(arg => arg.startsWith('--format='))?.split('=')[1];
+  if (!filePath) {
+    throw new Error('Usage: npm run import -- <file.csv|file.ndjson> [--format=csv|ndjson]');
+  }
+
+  const format = (formatArg || importService.formatFromFileName(filePath)) as ImportFormat | null;
+  if (format !== 'csv' && format !== 'ndjson') {
+    throw new Error('Could not tell the file format; pass --format=csv or --format=ndjson');
+  }
+
+  const job = await importService.prepareImport(filePath, format, path.basename(filePath));
+  if (job.last_line > 0) {
+    console.log(`Resuming import job ${job.id} after line ${job.last_line}`);
+  } else {
+    console.log(`Started import job ${job.id}`);
+  }
+
+  const finishedJob = await importService.runImport(job, filePath);
+  console.log(
+    `Import job ${finishedJob.id} ${finishedJob.status}: ${finishedJob.rows_imported} rows imported, ${finishedJob.rows_failed} rows rejected`
+  );
+
+  if (finishedJob.rows_failed > 0) {
+    const { items } = await importService.getJobErrors(finishedJob.id, 0, ERROR_PREVIEW_LIMIT);
+    items.forEach(error => console.log(`  line ${error.line}: ${error.field} ${error.message}`));
+    if (finishedJob.rows_failed > items.length) {
+      console.log(`  ... see GET /api/imports/${finishedJob.id}/errors for the full report`);
+    }
+  }
+  if (finishedJob.status === 'failed') {
+    console.error(`Import stopped: ${finishedJob.error}. Run the same command again to resume.`);
+  }
+  return finishedJob.status === 'completed';
+};
+
+// Only run the import if this file is executed directly
+if (require.main === module) {
+  importTransactionsFile(process.argv.slice(2))
+    .then(completed => {
+      process.exitCode = completed ? 0 : 1;
+    })
+    .catch(err => {
+      console.error('Error importing transactions:', err.message);
+      process.exitCode = 2;
+    })
+    .finally(async () => {
+      await db.closeDatabase();
+      await graphRepo.closeDriver();
+    });
+}
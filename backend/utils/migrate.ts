@@ -0,0 +1,92 @@
+import "dotenv/config";
+import neo4j from 'neo4j-driver';
+import * as db from '../database';
+import { sqliteMigrations } from '../migrations/sqlite';
+import { memgraphMigrations } from '../migrations/memgraph';
+
+const MEMGRAPH_URL = process.env.MEMGRAPH_URL || 'bolt://localhost:7687';
+
+// Apply pending SQLite migrations, each in its own transaction
+export async function migrateSqlite(): Promise<number[]> {
+  const applied: number[] = [];
+
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  const rows = await db.all<{ version: number }>('SELECT version FROM schema_migrations');
+  const appliedVersions = new Set(rows.map(row => row.version));
+
+  for (const migration of sqliteMigrations) {
+    if (appliedVersions.has(migration.version)) continue;
+
+    try {
+      await db.transaction(async (tx) => {
+        await tx.exec(migration.up);
+        await tx.run('INSERT INTO schema_migrations (version, name) VALUES (?, ?)', [migration.version, migration.name]);
+      });
+    } catch (error) {
+      throw new Error(`SQLite migration ${migration.version} (${migration.name}) failed: ${(error as Error).message}`);
+    }
+
+    console.log(`Applied SQLite migration ${migration.version}: ${migration.name}`);
+    applied.push(migration.version);
+  }
+
+  return applied;
+}
+
+// Apply pending Memgraph migrations and record them as SchemaMigration nodes
+export async function migrateMemgraph(): Promise<number[]> {
+  const driver = neo4j.driver(MEMGRAPH_URL, neo4j.auth.basic('', ''));
+  const session = driver.session();
+  const applied: number[] = [];
+
+  try {
+    const result = await session.run('MATCH (m:SchemaMigration) RETURN m.version AS version');
+    const appliedVersions = new Set(result.records.map(record => neo4j.integer.toNumber(record.get('version'))));
+
+    for (const migration of memgraphMigrations) {
+      if (appliedVersions.has(migration.version)) continue;
+
+      try {
+        await migration.up(session);
+      } catch (error) {
+        throw new Error(`Memgraph migration ${migration.version} (${migration.name}) failed: ${(error as Error).message}`);
+      }
+      await session.run(
+        'MERGE (m:SchemaMigration {version: $version}) SET m.name = $name, m.applied_at = $appliedAt',
+        { version: neo4j.int(migration.version), name: migration.name, appliedAt: new Date().toISOString() }
+      );
+
+      console.log(`Applied Memgraph migration ${migration.version}: ${migration.name}`);
+      applied.push(migration.version);
+    }
+  } finally {
+    await session.close();
+    await driver.close();
+  }
+
+  return applied;
+}
+
+// Apply all pending migrations to both stores
+export async function runMigrations(): Promise<void> {
+  await migrateSqlite();
+  await migrateMemgraph();
+}
+
+// Only run the migrations if this file is executed directly
+if (require.main === module) {
+  runMigrations()
+    .then(() => console.log('Migrations complete'))
+    .catch(err => {
+      console.error('Error running migrations:', err);
+      process.exitCode = 1;
+    })
+    .finally(() => db.closeDatabase());
+}
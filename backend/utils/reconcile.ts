@@ -0,0 +1,52 @@
+import "dotenv/config";
+import * as reconciliationService from '../services/reconciliationService';
+import * as graphRepo from '../repositories/graphRepository';
+import * as db from '../database';
+
+// Parse --flag and --flag=value command line arguments
+const parseArgs = (argv: string[]): Record<string, string | boolean> => {
+  const args: Record<string, string | boolean> = {};
+  argv.forEach(arg => {
+    const match = arg.match(/^--([^=]+)(?:=(.*))?$/);
+    if (match) {
+      args[match[1]] = match[2] ?? true;
+    }
+  });
+  return args;
+};
+
+// Print a drift report and, with --repair, fix drift according to the policy flags
+export const runReconciliation = async (argv: string[]): Promise<boolean> => {
+  const args = parseArgs(argv);
+
+  if (!args.repair) {
+    const report = await reconciliationService.buildDriftReport();
+    console.log(JSON.stringify(report, null, 2));
+    return report.inSync;
+  }
+
+  const policy = reconciliationService.resolvePolicy({
+    missingInGraph: args['missing-in-graph'],
+    orphanNodes: args['orphan-nodes'],
+    failedOutbox: args['failed-outbox'],
+  });
+  const result = await reconciliationService.repairDrift(policy);
+  console.log(JSON.stringify(result, null, 2));
+  return result.after.inSync;
+};
+
+// Only run the reconciliation if this file is executed directly
+if (require.main === module) {
+  runReconciliation(process.argv.slice(2))
+    .then(inSync => {
+      process.exitCode = inSync ? 0 : 1;
+    })
+    .catch(err => {
+      console.error('Error during reconciliation:', err);
+      process.exitCode = 2;
+    })
+    .finally(async () => {
+      await db.closeDatabase();
+      await graphRepo.closeDriver();
+    });
+}
@@ -0,0 +1,43 @@
+import { v4 as uuidv4 } from 'uuid';
+import * as db from '../database';
+
+interface Business {
+  name: string;
+  industry: string;
+}
+
+const businesses: Business[] = [
+  { name: "Global Tech Solutions", industry: "Technology" },
+  { name: "Apex Industries", industry: "Manufacturing" },
+  { name: "Blue Harbor Logistics", industry: "Logistics" },
+  { name: "Catalyst Consulting", industry: "Consulting" },
+  { name: "Digital Dynamics", industry: "Software Development" },
+  { name: "Eclipse Software", industry: "Software Development" },
+  { name: "Fusion Financial", industry: "Financial Services" },
+  { name: "Green Valley Foods", industry: "Food Production" },
+  { name: "Highland Manufacturing", industry: "Manufacturing" },
+  { name: "Innovation Labs", industry: "Technology" },
+  { name: "Jupiter Electronics", industry: "Electronics" },
+  { name: "Kinetic Energy Corp", industry: "Energy" }
+];
+
+// Insert the demo businesses, but only into an empty businesses table
+export async function seedDatabase(): Promise<void> {
+  const row = await db.get<{ count: number }>('SELECT COUNT(*) AS count FROM businesses');
+  if (row && row.count > 0) {
+    console.log(`Found ${row.count} existing businesses, skipping seed.`);
+    return;
+  }
+
+  await db.transaction(async (tx) => {
+    for (const business of businesses) {
+      const uuid = uuidv4();
+      await tx.run(
+        'INSERT INTO businesses (business_id, name, industry) VALUES (?, ?, ?)',
+        [uuid, business.name, business.industry]
+      );
+      console.log(`Inserted business: ${business.name}, Industry: ${business.industry}, UUID: ${uuid}`);
+    }
+  });
+  console.log('Database seeding complete.');
+}
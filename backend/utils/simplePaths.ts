@@ -0,0 +1,80 @@
+// Partial paths extended before giving up, so one dense neighbourhood can't keep a request busy
+const MAX_EXPANSIONS = 200000;
+
+/**
+ * Enumerate simple paths (no business visited twice) between two businesses, shortest first.
+ * Each pair of businesses is one edge however many transactions it has, and a partial path is
+ * only extended while the target is still reachable within maxHops.
+ * @param adjacency - Businesses reachable in one hop from each business, in traversal direction
+ * @returns Up to limit paths as lists of business IDs, and whether more paths may exist: another path
+ *   was found past the limit, or the search gave up before it was complete
+ */
+export const enumerateSimplePaths = (
+  adjacency: Map<string, string[]>,
+  from: string,
+  to: string,
+  minHops: number,
+  maxHops: number,
+  limit: number
+): { paths: string[][]; truncated: boolean } => {
+  // Hops from each business to the target, by a reverse breadth-first search
+  const predecessors = new Map<string, string[]>();
+  adjacency.forEach((targets, source) => {
+    targets.forEach((target) => {
+      const list = predecessors.get(target);
+      if (list) list.push(source);
+      else predecessors.set(target, [source]);
+    });
+  });
+  const distance = new Map<string, number>([[to, 0]]);
+  let frontier = [to];
+  for (let hops = 1; hops <= maxHops && frontier.length > 0; hops++) {
+    const next: string[] = [];
+    frontier.forEach((id) => {
+      (predecessors.get(id) ?? []).forEach((source) => {
+        if (distance.has(source)) return;
+        distance.set(source, hops);
+        next.push(source);
+      });
+    });
+    frontier = next;
+  }
+
+  const paths: string[][] = [];
+  const path = [from];
+  const onPath = new Set(path);
+  let expansions = 0;
+  let truncated = false;
+
+  // Depth-first search for paths of exactly `length` hops; stops at the first path past the limit
+  const extend = (id: string, length: number): void => {
+    if (truncated) return;
+    const remaining = length - (path.length - 1);
+    if (id === to) {
+      if (remaining !== 0) return;
+      if (paths.length < limit) paths.push([...path]);
+      else truncated = true;
+      return;
+    }
+    if ((distance.get(id) ?? Infinity) > remaining) return;
+
+    for (const next of adjacency.get(id) ?? []) {
+      if (onPath.has(next)) continue;
+      if (++expansions > MAX_EXPANSIONS) {
+        truncated = true;
+        return;
+      }
+      path.push(next);
+      onPath.add(next);
+      extend(next, length);
+      path.pop();
+      onPath.delete(next);
+      if (truncated) return;
+    }
+  };
+
+  for (let length = minHops; length <= maxHops && !truncated; length++) {
+    extend(from, length);
+  }
+  return { paths, truncated };
+};
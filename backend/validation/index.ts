@@ -0,0 +1,254 @@
+import { NextFunction, Request, Response } from "express";
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+interface StringRule {
+  type: "string";
+  minLength?: number;
+  maxLength?: number;
+}
+
+// ISO 8601 timestamps, normalized to UTC (toISOString) so they compare correctly as strings
+interface DateRule {
+  type: "isoDate";
+}
+
+interface EnumRule {
+  type: "enum";
+  values: readonly string[];
+}
+
+interface NumberRule {
+  type: "number" | "integer";
+  min?: number;
+  max?: number;
+  exclusiveMin?: boolean;
+}
+
+interface BooleanRule {
+  type: "boolean";
+}
+
+// A nested value, checked by its own function; its errors are reported under this field
+interface ObjectRule<V> {
+  type: "object";
+  check: (raw: unknown) => { value: V; errors: FieldError[] };
+}
+
+type RuleFor<V> = NonNullable<V> extends number
+  ? NumberRule
+  : NonNullable<V> extends boolean
+  ? BooleanRule
+  : NonNullable<V> extends string
+  ? StringRule | DateRule | EnumRule
+  : NonNullable<V> extends object
+  ? ObjectRule<NonNullable<V>>
+  : never;
+
+type RequiredKeys<T> = {
+  [K in keyof T]-?: {} extends Pick<T, K> ? never : K;
+}[keyof T];
+
+/**
+ * Validation rules for every field of a DTO. A field that is required in the DTO must be
+ * marked required here and an optional one must not be, so schemas can't drift from types/index.ts.
+ */
+export type Schema<T> = {
+  [K in keyof T]-?: RuleFor<T[K]> &
+    (K extends RequiredKeys<T> ? { required: true } : { required?: false });
+};
+
+type ScalarRule = StringRule | DateRule | EnumRule | NumberRule | BooleanRule;
+
+type AnyRule = (ScalarRule | ObjectRule<unknown>) & {
+  required?: boolean;
+};
+
+type Refinement<T> = (value: T) => FieldError[] | Promise<FieldError[]>;
+
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Check a single value against its rule
+ * @param coerce - Convert strings to numbers/booleans, for query strings and route params
+ * @returns The (possibly coerced) value, or an error message
+ */
+const checkField = (
+  rule: ScalarRule,
+  raw: unknown,
+  coerce: boolean
+): { value?: unknown; error?: string } => {
+  if (Array.isArray(raw) && coerce) {
+    return { error: "must be a single value" };
+  }
+
+  switch (rule.type) {
+    case "string": {
+      if (typeof raw !== "string") return { error: "must be a string" };
+      const value = raw.trim();
+      if (rule.minLength !== undefined && value.length < rule.minLength) {
+        return {
+          error:
+            rule.minLength === 1
+              ? "must not be empty"
+              : `must be at least ${rule.minLength} characters`,
+        };
+      }
+      if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+        return { error: `must be at most ${rule.maxLength} characters` };
+      }
+      return { value };
+    }
+    case "isoDate": {
+      if (
+        typeof raw !== "string" ||
+        !ISO_DATE_PATTERN.test(raw) ||
+        Number.isNaN(Date.parse(raw))
+      ) {
+        return { error: "must be an ISO 8601 date" };
+      }
+      return { value: new Date(raw).toISOString() };
+    }
+    case "enum": {
+      if (typeof raw !== "string" || !rule.values.includes(raw)) {
+        return { error: `must be one of ${rule.values.join(", ")}` };
+      }
+      return { value: raw };
+    }
+    case "number":
+    case "integer": {
+      const value =
+        coerce && typeof raw === "string" && raw.trim() !== ""
+          ? Number(raw)
+          : raw;
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return { error: "must be a number" };
+      }
+      if (rule.type === "integer" && !Number.isInteger(value)) {
+        return { error: "must be an integer" };
+      }
+      if (rule.min !== undefined) {
+        if (rule.exclusiveMin ? value <= rule.min : value < rule.min) {
+          return {
+            error: `must be ${rule.exclusiveMin ? "greater than" : "at least"} ${rule.min}`,
+          };
+        }
+      }
+      if (rule.max !== undefined && value > rule.max) {
+        return { error: `must be at most ${rule.max}` };
+      }
+      return { value };
+    }
+    case "boolean": {
+      if (typeof raw === "boolean") return { value: raw };
+      if (coerce && (raw === "true" || raw === "false")) {
+        return { value: raw === "true" };
+      }
+      return { error: "must be a boolean" };
+    }
+  }
+};
+
+/**
+ * Validate an input object against a schema. Fields not in the schema are dropped.
+ */
+export const validate = <T>(
+  schema: Schema<T>,
+  input: unknown,
+  options: { coerce?: boolean } = {}
+): { value: T; errors: FieldError[] } => {
+  const source = (
+    input && typeof input === "object" ? input : {}
+  ) as Record<string, unknown>;
+  const value: Record<string, unknown> = {};
+  const errors: FieldError[] = [];
+
+  for (const [field, fieldRule] of Object.entries(schema)) {
+    const rule = fieldRule as AnyRule;
+    const raw = source[field];
+
+    if (raw === undefined || raw === null || raw === "") {
+      if (rule.required) errors.push({ field, message: "is required" });
+      continue;
+    }
+
+    if (rule.type === "object") {
+      const nested = rule.check(raw);
+      if (nested.errors.length > 0) {
+        errors.push(
+          ...nested.errors.map((error) => ({
+            field: error.field ? `${field}.${error.field}` : field,
+            message: error.message,
+          }))
+        );
+      } else {
+        value[field] = nested.value;
+      }
+      continue;
+    }
+
+    const result = checkField(rule, raw, options.coerce ?? false);
+    if (result.error) {
+      errors.push({ field, message: result.error });
+    } else {
+      value[field] = result.value;
+    }
+  }
+
+  return { value: value as T, errors };
+};
+
+/**
+ * Send the standard 400 response for invalid input
+ */
+export const sendValidationError = (res: Response, details: FieldError[]): void => {
+  res.status(400).json({ success: false, error: "Validation failed", details });
+};
+
+const validateRequest =
+  <T>(
+    location: "body" | "query" | "params",
+    schema: Schema<T>,
+    refine?: Refinement<T>
+  ) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { value, errors } = validate(schema, req[location], {
+        coerce: location !== "body",
+      });
+      if (errors.length === 0 && refine) {
+        errors.push(...(await refine(value)));
+      }
+      if (errors.length > 0) {
+        sendValidationError(res, errors);
+        return;
+      }
+
+      res.locals[location] = value;
+      next();
+    } catch (error) {
+      res.status(500).json({ success: false, error: (error as Error).message });
+    }
+  };
+
+/**
+ * Validate req.body; the validated value is stored in res.locals.body
+ */
+export const validateBody = <T>(schema: Schema<T>, refine?: Refinement<T>) =>
+  validateRequest("body", schema, refine);
+
+/**
+ * Validate req.query, coercing numbers and booleans; the validated value is stored in res.locals.query
+ */
+export const validateQuery = <T>(schema: Schema<T>, refine?: Refinement<T>) =>
+  validateRequest("query", schema, refine);
+
+/**
+ * Validate req.params; the validated value is stored in res.locals.params
+ */
+export const validateParams = <T>(schema: Schema<T>, refine?: Refinement<T>) =>
+  validateRequest("params", schema, refine);
@@ -0,0 +1,575 @@
+import * as businessRepo from "../repositories/businessRepository";
+import {
+  AlertListQuery,
+  AlertParams,
+  AlertRuleDefinition,
+  AlertRuleParams,
+  AlertRuleType,
+  ApiKeyParams,
+  AuditListQuery,
+  BusinessIdParams,
+  BusinessMetricsQuery,
+  BusinessTransactionsQuery,
+  CreateAlertRuleDto,
+  CreateApiKeyDto,
+  CreateBusinessDto,
+  CreateTransactionDto,
+  CycleQuery,
+  DeleteBusinessQuery,
+  ExportQuery,
+  GenerateMockTransactionsDto,
+  GraphExportQuery,
+  ImportErrorsQuery,
+  ImportJobParams,
+  ImportQuery,
+  ImportRowDto,
+  MetricsQuery,
+  NeighborhoodQuery,
+  PaginationQuery,
+  PathQuery,
+  RepairPolicyDto,
+  ResumeRequest,
+  StartMockGeneratorDto,
+  StructuringQuery,
+  Subscription,
+  SubscriptionFilter,
+  TransactionFilters,
+  TransactionListQuery,
+  UpdateAlertDto,
+  UpdateAlertRuleDto,
+  UnsubscribeRequest,
+  UpdateBusinessDto,
+  VolumeQuery,
+} from "../types";
+import { decodeCursor } from "../utils/cursor";
+import { FieldError, Schema, validate } from "./index";
+
+const MAX_NAME_LENGTH = 200;
+const MAX_INDUSTRY_LENGTH = 100;
+const MAX_PAGE_SIZE = 1000;
+// Simple-path enumeration grows exponentially with the number of hops
+const MAX_PATH_HOPS = 6;
+const MAX_PATHS = 100;
+const MAX_CYCLE_LENGTH = 6;
+const MAX_NEIGHBORHOOD_HOPS = 4;
+const MAX_NEIGHBORHOOD_NODES = 5000;
+const MAX_NEIGHBORHOOD_SEEDS = 50;
+const MAX_SUBSCRIPTION_VALUES = 100;
+const MAX_RESTORED_SUBSCRIPTIONS = 100;
+const ALERT_SEVERITIES = ["low", "medium", "high", "critical"] as const;
+const ALERT_STATUSES = ["open", "acknowledged", "resolved"] as const;
+const API_KEY_ROLES = ["viewer", "analyst", "admin"] as const;
+const AUDIT_OUTCOMES = ["success", "failure", "aborted"] as const;
+
+export const businessIdParamsSchema: Schema<BusinessIdParams> = {
+  business_id: { type: "string", required: true, minLength: 1 },
+};
+
+export const createBusinessSchema: Schema<CreateBusinessDto> = {
+  name: { type: "string", required: true, minLength: 1, maxLength: MAX_NAME_LENGTH },
+  industry: {
+    type: "string",
+    required: true,
+    minLength: 1,
+    maxLength: MAX_INDUSTRY_LENGTH,
+  },
+};
+
+export const updateBusinessSchema: Schema<UpdateBusinessDto> = {
+  name: { type: "string", minLength: 1, maxLength: MAX_NAME_LENGTH },
+  industry: { type: "string", minLength: 1, maxLength: MAX_INDUSTRY_LENGTH },
+};
+
+export const deleteBusinessQuerySchema: Schema<DeleteBusinessQuery> = {
+  cascade: { type: "boolean" },
+};
+
+export const paginationQuerySchema: Schema<PaginationQuery> = {
+  limit: { type: "integer", min: 1, max: MAX_PAGE_SIZE },
+  cursor: { type: "string", minLength: 1 },
+  sort: { type: "enum", values: ["timestamp", "amount"] },
+  order: { type: "enum", values: ["asc", "desc"] },
+  includeTotal: { type: "boolean" },
+};
+
+export const businessTransactionsQuerySchema: Schema<BusinessTransactionsQuery> = {
+  from: { type: "string", minLength: 1 },
+  to: { type: "string", minLength: 1 },
+  ...paginationQuerySchema,
+};
+
+export const createTransactionSchema: Schema<CreateTransactionDto> = {
+  from: { type: "string", required: true, minLength: 1 },
+  to: { type: "string", required: true, minLength: 1 },
+  amount: { type: "number", required: true, min: 0, exclusiveMin: true },
+  timestamp: { type: "isoDate", required: true },
+};
+
+export const transactionFiltersSchema: Schema<TransactionFilters> = {
+  from: { type: "string", minLength: 1 },
+  to: { type: "string", minLength: 1 },
+  business: { type: "string", minLength: 1 },
+  counterparty: { type: "string", minLength: 1 },
+  industry: { type: "string", minLength: 1, maxLength: MAX_INDUSTRY_LENGTH },
+  startDate: { type: "isoDate" },
+  endDate: { type: "isoDate" },
+  minAmount: { type: "number", min: 0 },
+  maxAmount: { type: "number", min: 0 },
+};
+
+export const volumeQuerySchema: Schema<VolumeQuery> = {
+  ...transactionFiltersSchema,
+  interval: { type: "enum", required: true, values: ["hour", "day", "week"] },
+};
+
+export const exportQuerySchema: Schema<ExportQuery> = {
+  ...transactionFiltersSchema,
+  format: { type: "enum", required: true, values: ["csv", "ndjson", "json"] },
+};
+
+export const graphExportQuerySchema: Schema<GraphExportQuery> = {
+  ...transactionFiltersSchema,
+  format: { type: "enum", required: true, values: ["graphml", "gexf", "cypher"] },
+};
+
+export const transactionListQuerySchema: Schema<TransactionListQuery> = {
+  ...transactionFiltersSchema,
+  ...paginationQuerySchema,
+};
+
+export const generateMockTransactionsSchema: Schema<GenerateMockTransactionsDto> = {
+  numTransactions: { type: "integer", required: true, min: 1, max: 1000 },
+};
+
+export const startMockGeneratorSchema: Schema<StartMockGeneratorDto> = {
+  numTransactions: { type: "integer", required: true, min: 1, max: 100 },
+  intervalSeconds: { type: "number", min: 1 },
+};
+
+export const repairPolicySchema: Schema<RepairPolicyDto> = {
+  missingInGraph: { type: "enum", values: ["create", "ignore"] },
+  orphanNodes: {
+    type: "enum",
+    values: ["ignore", "delete", "delete_if_isolated", "import"],
+  },
+  failedOutbox: { type: "enum", values: ["retry", "ignore"] },
+};
+
+export const importRowSchema: Schema<ImportRowDto> = {
+  id: { type: "string", minLength: 1, maxLength: 200 },
+  from: { type: "string", required: true, minLength: 1 },
+  to: { type: "string", required: true, minLength: 1 },
+  amount: { type: "number", required: true, min: 0, exclusiveMin: true },
+  timestamp: { type: "isoDate", required: true },
+};
+
+export const importQuerySchema: Schema<ImportQuery> = {
+  format: { type: "enum", values: ["csv", "ndjson"] },
+  source: { type: "string", minLength: 1, maxLength: 500 },
+};
+
+export const importJobParamsSchema: Schema<ImportJobParams> = {
+  id: { type: "integer", required: true, min: 1 },
+};
+
+export const importErrorsQuerySchema: Schema<ImportErrorsQuery> = {
+  limit: { type: "integer", min: 1, max: MAX_PAGE_SIZE },
+  cursor: { type: "integer", min: 0 },
+};
+
+export const pathQuerySchema: Schema<PathQuery> = {
+  from: { type: "string", required: true, minLength: 1 },
+  to: { type: "string", required: true, minLength: 1 },
+  mode: { type: "enum", values: ["shortest", "all"] },
+  maxHops: { type: "integer", min: 1, max: MAX_PATH_HOPS },
+  direction: { type: "enum", values: ["outgoing", "incoming", "any"] },
+  limit: { type: "integer", min: 1, max: MAX_PATHS },
+  startDate: { type: "isoDate" },
+  endDate: { type: "isoDate" },
+  minAmount: { type: "number", min: 0 },
+};
+
+export const cycleQuerySchema: Schema<CycleQuery> = {
+  maxLength: { type: "integer", min: 2, max: MAX_CYCLE_LENGTH },
+  startDate: { type: "isoDate" },
+  endDate: { type: "isoDate" },
+  maxSpanHours: { type: "number", min: 0, exclusiveMin: true },
+  tolerance: { type: "number", min: 0, max: 1 },
+  minAmount: { type: "number", min: 0 },
+  business: { type: "string", minLength: 1 },
+  limit: { type: "integer", min: 1, max: MAX_PATHS },
+};
+
+/**
+ * A list of strings, as an array or a comma-separated string. Duplicates are dropped.
+ * @param noun - What the strings are, for error messages
+ */
+const checkStringList =
+  (noun: string, max: number) =>
+  (raw: unknown): { value: string[]; errors: FieldError[] } => {
+    const items = typeof raw === "string" ? raw.split(",") : raw;
+    if (!Array.isArray(items) || items.some((item) => typeof item !== "string")) {
+      return { value: [], errors: [{ field: "", message: `must be a list of ${noun}` }] };
+    }
+
+    const value = Array.from(
+      new Set(items.map((item: string) => item.trim()).filter((item) => item !== ""))
+    );
+    if (value.length === 0) {
+      return { value, errors: [{ field: "", message: "must not be empty" }] };
+    }
+    if (value.length > max) {
+      return { value, errors: [{ field: "", message: `must have at most ${max} ${noun}` }] };
+    }
+    return { value, errors: [] };
+  };
+
+export const neighborhoodQuerySchema: Schema<NeighborhoodQuery> = {
+  seeds: {
+    type: "object",
+    required: true,
+    check: checkStringList("business IDs", MAX_NEIGHBORHOOD_SEEDS),
+  },
+  hops: { type: "integer", min: 1, max: MAX_NEIGHBORHOOD_HOPS },
+  maxNodes: { type: "integer", min: 1, max: MAX_NEIGHBORHOOD_NODES },
+  startDate: { type: "isoDate" },
+  endDate: { type: "isoDate" },
+  minAmount: { type: "number", min: 0 },
+};
+
+export const subscriptionFilterSchema: Schema<SubscriptionFilter> = {
+  businessIds: { type: "object", check: checkStringList("business IDs", MAX_SUBSCRIPTION_VALUES) },
+  industries: { type: "object", check: checkStringList("industries", MAX_SUBSCRIPTION_VALUES) },
+  minAmount: { type: "number", min: 0 },
+  maxAmount: { type: "number", min: 0 },
+};
+
+export const unsubscribeSchema: Schema<UnsubscribeRequest> = {
+  id: { type: "string", minLength: 1 },
+};
+
+/**
+ * Check the subscriptions a reconnecting client had; each keeps its ID
+ */
+const checkRestoredSubscriptions = (raw: unknown): { value: Subscription[]; errors: FieldError[] } => {
+  if (!Array.isArray(raw)) {
+    return { value: [], errors: [{ field: "", message: "must be a list of subscriptions" }] };
+  }
+  if (raw.length > MAX_RESTORED_SUBSCRIPTIONS) {
+    return {
+      value: [],
+      errors: [{ field: "", message: `must have at most ${MAX_RESTORED_SUBSCRIPTIONS} subscriptions` }],
+    };
+  }
+
+  const value: Subscription[] = [];
+  const errors: FieldError[] = [];
+  raw.forEach((item, index) => {
+    const { id, filter, createdAt } = (item && typeof item === "object" ? item : {}) as Record<
+      string,
+      unknown
+    >;
+    const checked = validate(subscriptionFilterSchema, filter);
+    const itemErrors = [...checked.errors];
+    if (checked.errors.length === 0) itemErrors.push(...checkSubscriptionFilter(checked.value));
+    if (typeof id !== "string" || id === "") itemErrors.push({ field: "id", message: "is required" });
+
+    errors.push(...itemErrors.map((error) => ({ field: `${index}.${error.field}`, message: error.message })));
+    if (itemErrors.length === 0) {
+      value.push({
+        id: id as string,
+        filter: checked.value,
+        createdAt: typeof createdAt === "string" ? createdAt : new Date().toISOString(),
+      });
+    }
+  });
+  return { value, errors };
+};
+
+export const resumeRequestSchema: Schema<ResumeRequest> = {
+  epoch: { type: "string", minLength: 1 },
+  lastSeq: { type: "integer", min: 0 },
+  graphVersion: { type: "integer", min: 0 },
+  subscriptions: { type: "object", check: checkRestoredSubscriptions },
+};
+
+export const metricsQuerySchema: Schema<MetricsQuery> = {
+  weight: { type: "enum", values: ["count", "amount"] },
+  sort: { type: "enum", values: ["pageRank", "betweenness", "inDegree", "outDegree"] },
+  limit: { type: "integer", min: 1, max: MAX_PAGE_SIZE },
+};
+
+export const businessMetricsQuerySchema: Schema<BusinessMetricsQuery> = {
+  weight: { type: "enum", values: ["count", "amount"] },
+};
+
+export const structuringQuerySchema: Schema<StructuringQuery> = {
+  pattern: { type: "enum", values: ["fan_in", "fan_out"] },
+  business: { type: "string", minLength: 1 },
+  startDate: { type: "isoDate" },
+  endDate: { type: "isoDate" },
+  windowHours: { type: "number", min: 0, exclusiveMin: true },
+  minCounterparties: { type: "integer", min: 1 },
+  maxSmallAmount: { type: "number", min: 0, exclusiveMin: true },
+  minLargeAmount: { type: "number", min: 0, exclusiveMin: true },
+  minConcentration: { type: "number", min: 0 },
+  limit: { type: "integer", min: 1, max: MAX_PATHS },
+};
+
+const alertRuleDefinitionSchemas: {
+  [K in AlertRuleType]: Schema<Extract<AlertRuleDefinition, { type: K }>>;
+} = {
+  amount_threshold: {
+    type: { type: "enum", required: true, values: ["amount_threshold"] },
+    minAmount: { type: "number", required: true, min: 0, exclusiveMin: true },
+  },
+  industry_pair: {
+    type: { type: "enum", required: true, values: ["industry_pair"] },
+    fromIndustry: { type: "string", minLength: 1, maxLength: MAX_INDUSTRY_LENGTH },
+    toIndustry: { type: "string", minLength: 1, maxLength: MAX_INDUSTRY_LENGTH },
+  },
+  velocity: {
+    type: { type: "enum", required: true, values: ["velocity"] },
+    windowMinutes: { type: "integer", required: true, min: 1 },
+    maxCount: { type: "integer", min: 1 },
+    maxAmount: { type: "number", min: 0, exclusiveMin: true },
+    direction: { type: "enum", values: ["outgoing", "incoming"] },
+  },
+  new_counterparty: {
+    type: { type: "enum", required: true, values: ["new_counterparty"] },
+    minAmount: { type: "number", min: 0 },
+  },
+};
+
+/**
+ * Validate a rule definition against the schema of its type
+ */
+const checkAlertRuleDefinition = (
+  raw: unknown
+): { value: AlertRuleDefinition; errors: FieldError[] } => {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return {
+      value: raw as AlertRuleDefinition,
+      errors: [{ field: "", message: "must be an object" }],
+    };
+  }
+
+  const type = (raw as { type?: unknown }).type;
+  if (typeof type !== "string" || !(type in alertRuleDefinitionSchemas)) {
+    return {
+      value: raw as AlertRuleDefinition,
+      errors: [
+        {
+          field: "type",
+          message: `must be one of ${Object.keys(alertRuleDefinitionSchemas).join(", ")}`,
+        },
+      ],
+    };
+  }
+
+  const schema = alertRuleDefinitionSchemas[type as AlertRuleType] as Schema<AlertRuleDefinition>;
+  const { value, errors } = validate(schema, raw);
+  if (value.type === "industry_pair" && !value.fromIndustry && !value.toIndustry) {
+    errors.push({ field: "fromIndustry", message: "fromIndustry or toIndustry is required" });
+  }
+  if (value.type === "velocity" && value.maxCount === undefined && value.maxAmount === undefined) {
+    errors.push({ field: "maxCount", message: "maxCount or maxAmount is required" });
+  }
+  return { value, errors };
+};
+
+export const createAlertRuleSchema: Schema<CreateAlertRuleDto> = {
+  name: { type: "string", required: true, minLength: 1, maxLength: MAX_NAME_LENGTH },
+  description: { type: "string", maxLength: 1000 },
+  severity: { type: "enum", required: true, values: ALERT_SEVERITIES },
+  enabled: { type: "boolean" },
+  definition: { type: "object", required: true, check: checkAlertRuleDefinition },
+};
+
+export const updateAlertRuleSchema: Schema<UpdateAlertRuleDto> = {
+  name: { type: "string", minLength: 1, maxLength: MAX_NAME_LENGTH },
+  description: { type: "string", maxLength: 1000 },
+  severity: { type: "enum", values: ALERT_SEVERITIES },
+  enabled: { type: "boolean" },
+  definition: { type: "object", check: checkAlertRuleDefinition },
+};
+
+export const alertRuleParamsSchema: Schema<AlertRuleParams> = {
+  id: { type: "integer", required: true, min: 1 },
+};
+
+export const alertParamsSchema: Schema<AlertParams> = {
+  id: { type: "integer", required: true, min: 1 },
+};
+
+export const createApiKeySchema: Schema<CreateApiKeyDto> = {
+  name: { type: "string", required: true, minLength: 1, maxLength: MAX_NAME_LENGTH },
+  role: { type: "enum", required: true, values: API_KEY_ROLES },
+};
+
+export const apiKeyParamsSchema: Schema<ApiKeyParams> = {
+  id: { type: "integer", required: true, min: 1 },
+};
+
+export const auditListQuerySchema: Schema<AuditListQuery> = {
+  actor: { type: "string", minLength: 1 },
+  method: { type: "enum", values: ["POST", "PUT", "PATCH", "DELETE"] },
+  path: { type: "string", minLength: 1 },
+  outcome: { type: "enum", values: AUDIT_OUTCOMES },
+  startDate: { type: "isoDate" },
+  endDate: { type: "isoDate" },
+  limit: { type: "integer", min: 1, max: MAX_PAGE_SIZE },
+  cursor: { type: "integer", min: 1 },
+};
+
+export const alertListQuerySchema: Schema<AlertListQuery> = {
+  status: { type: "enum", values: ALERT_STATUSES },
+  severity: { type: "enum", values: ALERT_SEVERITIES },
+  ruleId: { type: "integer", min: 1 },
+  limit: { type: "integer", min: 1, max: MAX_PAGE_SIZE },
+  cursor: { type: "integer", min: 1 },
+};
+
+export const updateAlertSchema: Schema<UpdateAlertDto> = {
+  status: { type: "enum", required: true, values: ALERT_STATUSES },
+};
+
+/**
+ * At least one field must be present in an alert rule update
+ */
+export const requireAlertRuleUpdateField = (dto: UpdateAlertRuleDto): FieldError[] =>
+  Object.keys(dto).length === 0
+    ? [{ field: "body", message: "at least one field is required" }]
+    : [];
+
+/**
+ * At least one field must be present in a business update
+ */
+export const requireBusinessUpdateField = (dto: UpdateBusinessDto): FieldError[] =>
+  dto.name === undefined && dto.industry === undefined
+    ? [{ field: "body", message: "at least one of name or industry is required" }]
+    : [];
+
+/**
+ * Range bounds must not be inverted, and a counterparty only makes sense together with a business
+ */
+export const checkFilterRanges = (filters: TransactionFilters): FieldError[] => {
+  const errors: FieldError[] = [];
+  if (filters.counterparty && !filters.business) {
+    errors.push({ field: "counterparty", message: "requires business" });
+  }
+  if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) {
+    errors.push({ field: "endDate", message: "must not be before startDate" });
+  }
+  if (
+    filters.minAmount !== undefined &&
+    filters.maxAmount !== undefined &&
+    filters.minAmount > filters.maxAmount
+  ) {
+    errors.push({ field: "maxAmount", message: "must not be less than minAmount" });
+  }
+  return errors;
+};
+
+/**
+ * The cursor must be one we issued, for the same sort as the request
+ */
+export const checkCursor = (query: PaginationQuery): FieldError[] => {
+  if (query.cursor === undefined) return [];
+
+  const cursor = decodeCursor(query.cursor);
+  if (!cursor) {
+    return [{ field: "cursor", message: "is not a valid cursor" }];
+  }
+  if (
+    (query.sort && query.sort !== cursor.sort) ||
+    (query.order && query.order !== cursor.order)
+  ) {
+    return [{ field: "cursor", message: "was issued for a different sort or order" }];
+  }
+  return [];
+};
+
+/**
+ * Range bounds and cursor checks for transaction list queries
+ */
+export const checkTransactionListQuery = (query: TransactionListQuery): FieldError[] => [
+  ...checkFilterRanges(query),
+  ...checkCursor(query),
+];
+
+/**
+ * A small payment must be smaller than a large one
+ */
+export const checkStructuringQuery = (query: StructuringQuery): FieldError[] => {
+  const errors = checkFilterRanges(query);
+  if (
+    query.maxSmallAmount !== undefined &&
+    query.minLargeAmount !== undefined &&
+    query.maxSmallAmount >= query.minLargeAmount
+  ) {
+    errors.push({ field: "minLargeAmount", message: "must be greater than maxSmallAmount" });
+  }
+  return errors;
+};
+
+/**
+ * Reject business IDs that don't exist in SQLite
+ */
+export const checkBusinessesExist = async (
+  fields: Record<string, string | undefined>
+): Promise<FieldError[]> => {
+  const entries = Object.entries(fields).filter(
+    (entry): entry is [string, string] => entry[1] !== undefined
+  );
+  if (entries.length === 0) return [];
+
+  const { nameMap } = await businessRepo.getBusinessDetails(
+    Array.from(new Set(entries.map(([, id]) => id)))
+  );
+  return entries
+    .filter(([, id]) => nameMap[id] === undefined)
+    .map(([field, id]) => ({ field, message: `unknown business ID "${id}"` }));
+};
+
+/**
+ * Path endpoints must be distinct, existing businesses
+ */
+export const checkPathQuery = async (query: PathQuery): Promise<FieldError[]> => {
+  const errors = checkFilterRanges(query);
+  if (query.from === query.to) {
+    return [...errors, { field: "to", message: "must differ from from" }];
+  }
+  return [...errors, ...(await checkBusinessesExist({ from: query.from, to: query.to }))];
+};
+
+/**
+ * A subscription must narrow the events down, with a coherent amount range
+ */
+export const checkSubscriptionFilter = (filter: SubscriptionFilter): FieldError[] => {
+  if (Object.keys(filter).length === 0) {
+    return [
+      {
+        field: "body",
+        message: "at least one of businessIds, industries, minAmount or maxAmount is required",
+      },
+    ];
+  }
+  return checkFilterRanges(filter);
+};
+
+/**
+ * Seed businesses must exist
+ */
+export const checkNeighborhoodQuery = async (query: NeighborhoodQuery): Promise<FieldError[]> => [
+  ...checkFilterRanges(query),
+  ...(await checkBusinessesExist(
+    Object.fromEntries(query.seeds.map((id, i) => [`seeds.${i}`, id]))
+  )),
+];
+
+/**
+ * Both parties must be existing businesses
+ */
+export const checkTransactionParties = (dto: CreateTransactionDto): Promise<FieldError[]> =>
+  checkBusinessesExist({ from: dto.from, to: dto.to });
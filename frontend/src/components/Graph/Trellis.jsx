@@ -3,11 +3,12 @@ import { useResizeDetector } from "react-resize-detector";
 import { getSelectionBounds, boundsToViewport } from "@sayari/trellis";
 import * as Force from "@sayari/trellis/layout/force";
 import { Renderer } from "@sayari/trellis/bindings/react/renderer";
-import { getSocket } from "../../services/socket";
-import { concatSet, styleNode } from "./util";
+import { getSocket, onGraphDelta, requestGraphSnapshot, requestNeighborhood } from "../../services/socket";
+import { collapseClusters, concatSet, styleNode } from "./util";
 import { Selection } from "@sayari/trellis/bindings/react/selection";
 import Button from "@mui/material/Button";
 import RefreshIcon from "@mui/icons-material/Refresh";
+import WorkspacesIcon from "@mui/icons-material/Workspaces";
 import NotificationsActiveIcon from "@mui/icons-material/SettingsEthernetSharp";
 
 const force = Force.Layout();
@@ -30,6 +31,7 @@ const Graph = ({ onNodeClick }) => {
   const [edges, setEdges] = useState([]);
   const [newTransaction, setNewTransaction] = useState(null);
   const [lastUpdateTime, setLastUpdateTime] = useState(Date.now());
+  const [collapsed, setCollapsed] = useState(false);
 
   // Connect to WebSocket server
   useEffect(() => {
@@ -40,41 +42,90 @@ const Graph = ({ onNodeClick }) => {
     const handleInitialData = (data) => {
       console.log('Received initial data:', data);
       if (data && data.nodes && data.edges) {
+        // A neighborhood view only follows deltas that touch businesses already shown
+        focusedRef.current = Boolean(data.seeds);
         setNodes(data.nodes);
         setEdges(data.edges);
       }
     };
 
-    const handleGraphUpdate = (data) => {
-      console.log('Received graph update:', data);
-      if (data && data.nodes && data.edges) {
-        setNodes(data.nodes);
-        setEdges(data.edges);
-        if (data.newTransaction) {
-          setNewTransaction(data.newTransaction);
-          
-          // Set a timer to clear the notification after 3 seconds
-          setTimeout(() => {
-            setNewTransaction(null);
-          }, 3000);
-        }
-        setLastUpdateTime(Date.now());
+    const loadSnapshot = () => {
+      requestGraphSnapshot()
+        .then((snapshot) => {
+          setNodes(snapshot.nodes);
+          setEdges(snapshot.edges);
+          setLastUpdateTime(Date.now());
+        })
+        .catch((error) => console.error('Error reloading graph:', error.message));
+    };
+
+    const handleGraphDelta = (delta, { gap }) => {
+      console.log('Received graph delta:', delta);
+      if (gap) {
+        loadSnapshot();
+        return;
       }
+
+      const { edge } = delta;
+      const shown = new Set(graphDataRef.current.nodes.map(node => node.id));
+      if (focusedRef.current && !shown.has(edge.source) && !shown.has(edge.target)) return;
+
+      setNodes(prev => {
+        const known = new Set(prev.map(node => node.id));
+        return [...prev, ...delta.nodes.filter(node => !known.has(node.id))];
+      });
+      setEdges(prev => [...prev.filter(e => e.id !== edge.id), edge]);
+
+      // Highlight the transaction's edge, which is keyed by business IDs rather than names
+      setNewTransaction({ ...delta.newTransaction, source: edge.source, target: edge.target });
+      
+      // Set a timer to clear the notification after 3 seconds
+      setTimeout(() => {
+        setNewTransaction(null);
+      }, 3000);
+      setLastUpdateTime(Date.now());
+    };
+
+    const handleBusinessUpdated = (business) => {
+      const relabel = (node) =>
+        node.id === business.business_id ? { ...node, label: business.name } : node;
+      setNodes(prev => prev.map(relabel));
+      setGraph(prev => ({ ...prev, nodes: prev.nodes.map(relabel) }));
+    };
+
+    const handleBusinessDeleted = ({ business_id }) => {
+      const keepEdge = (edge) => edge.source !== business_id && edge.target !== business_id;
+      delete prevNodesRef.current[business_id];
+      setNodes(prev => prev.filter(node => node.id !== business_id));
+      setEdges(prev => prev.filter(keepEdge));
+      setGraph(prev => ({
+        ...prev,
+        nodes: prev.nodes.filter(node => node.id !== business_id),
+        edges: prev.edges.filter(keepEdge),
+      }));
     };
 
     // Register event listeners
     socket.on('initialData', handleInitialData);
-    socket.on('graphUpdate', handleGraphUpdate);
+    const removeGraphDeltaListener = onGraphDelta(handleGraphDelta);
+    socket.on('businessUpdated', handleBusinessUpdated);
+    socket.on('businessDeleted', handleBusinessDeleted);
+    // Imports don't send deltas
+    socket.on('importCompleted', loadSnapshot);
 
     // Cleanup: remove event listeners on unmount
     return () => {
       socket.off('initialData', handleInitialData);
-      socket.off('graphUpdate', handleGraphUpdate);
+      removeGraphDeltaListener();
+      socket.off('businessUpdated', handleBusinessUpdated);
+      socket.off('businessDeleted', handleBusinessDeleted);
+      socket.off('importCompleted', loadSnapshot);
     };
   }, []);
 
   // Reference to store node positions across updates
   const prevNodesRef = useRef({});
+  const focusedRef = useRef(false);
   const graphDataRef = useRef({ nodes: [], edges: [] });
   
   // Initial graph layout
@@ -156,9 +207,14 @@ const Graph = ({ onNodeClick }) => {
           radius: 25
         }));
         
-        // Only update the edges, keep nodes in place
+        // Only update the edges and trading clusters, keep nodes in place
+        const clusterIds = new Map(nodes.map(node => [node.id, node.clusterId]));
         graphDataRef.current = { nodes: updatedNodes, edges };
-        setGraph(prev => ({ ...prev, edges }));
+        setGraph(prev => ({
+          ...prev,
+          nodes: prev.nodes.map(node => ({ ...node, clusterId: clusterIds.get(node.id) })),
+          edges
+        }));
       }
     }
   }, [lastUpdateTime]);
@@ -175,6 +231,25 @@ const Graph = ({ onNodeClick }) => {
     [graph.nodes, onNodeClick]
   );
 
+  // Expand a business with its direct counterparties and the transactions between them
+  const onNodeDoubleClick = useCallback(({ target: { id, isCluster } }) => {
+    if (isCluster) return;
+    requestNeighborhood({ seeds: [id], hops: 1 })
+      .then((neighborhood) => {
+        setNodes(prev => {
+          const known = new Set(prev.map(node => node.id));
+          return [...prev, ...neighborhood.nodes.filter(node => !known.has(node.id))];
+        });
+        setEdges(prev => {
+          const merged = new Map(prev.map(edge => [edge.id, edge]));
+          neighborhood.edges.forEach(edge => merged.set(edge.id, edge));
+          return [...merged.values()];
+        });
+        setLastUpdateTime(Date.now());
+      })
+      .catch((error) => console.error('Error expanding node:', error.message));
+  }, []);
+
   const onViewportDrag = useCallback(({ viewportX: x, viewportY: y }) => {
     setGraph((graph) => ({ ...graph, x, y }));
   }, []);
@@ -187,14 +262,15 @@ const Graph = ({ onNodeClick }) => {
     setGraph((graph) => ({ ...graph, selected: new Set() }));
   }, []);
 
-  const onNodeDrag = useCallback(({ nodeX, nodeY, target: { id, x = 0, y = 0 } }) => {
+  const onNodeDrag = useCallback(({ nodeX, nodeY, target: { id, x = 0, y = 0, isCluster, clusterId } }) => {
     const dx = nodeX - x;
     const dy = nodeY - y;
 
+    // Dragging a collapsed cluster moves all of its members
     setGraph((graph) => ({
       ...graph,
       nodes: graph.nodes.map((node) => {
-        if (node.id === id || graph.selected.has(node.id)) {
+        if (node.id === id || graph.selected.has(node.id) || (isCluster && node.clusterId === clusterId)) {
           return { ...node, x: node.x + dx, y: node.y + dy };
         }
         return node;
@@ -250,12 +326,18 @@ const Graph = ({ onNodeClick }) => {
     }
   }, [width, height, graph.nodes, graph.edges, nodes.length]);
 
+  // Nodes and edges as displayed, with each trading cluster collapsed into one node if requested
+  const visible = useMemo(
+    () => (collapsed ? collapseClusters(graph.nodes, graph.edges) : { nodes: graph.nodes, edges: graph.edges }),
+    [collapsed, graph.nodes, graph.edges]
+  );
+
   const styledNodes = useMemo(() => {
-    return graph.nodes.map((node) => styleNode(node, node.id === graph.hoverNode, graph.selected.has(node.id)));
+    return visible.nodes.map((node) => styleNode(node, node.id === graph.hoverNode, graph.selected.has(node.id)));
 
 
     
-  }, [graph.nodes, graph.selected, graph.hoverNode]);
+  }, [visible.nodes, graph.selected, graph.hoverNode]);
 
   // Track edge animations state
   const edgeAnimationsRef = useRef(new Map());
@@ -263,11 +345,11 @@ const Graph = ({ onNodeClick }) => {
   
   // Get a more stable edge styling that preserves animations
   const styledEdges = useMemo(() => {
-    if (!graph.edges.length) return [];
+    if (!visible.edges.length) return [];
     
     // Build current edge map
     const currentEdgeIds = new Set();
-    graph.edges.forEach(edge => {
+    visible.edges.forEach(edge => {
       const edgeKey = `${edge.source}-${edge.target}`;
       currentEdgeIds.add(edgeKey);
     });
@@ -290,7 +372,7 @@ const Graph = ({ onNodeClick }) => {
     
     // Is there a new transaction from the WebSocket?
     if (newTransaction) {
-      const transactionEdgeKey = `${newTransaction.from}-${newTransaction.to}`;
+      const transactionEdgeKey = `${newTransaction.source}-${newTransaction.target}`;
       edgeAnimationsRef.current.set(transactionEdgeKey, {
         isNew: true,
         startTime: Date.now(),
@@ -300,7 +382,7 @@ const Graph = ({ onNodeClick }) => {
     }
     
     // Style edges based on their animation state
-    const result = graph.edges.map(edge => {
+    const result = visible.edges.map(edge => {
       const edgeKey = `${edge.source}-${edge.target}`;
       const transactionCount = edge.transactionCount || 1;
       const baseWidth = Math.min(transactionCount, 5) * 2;
@@ -347,7 +429,7 @@ const Graph = ({ onNodeClick }) => {
     previousEdgesRef.current = currentEdgeIds;
     
     return result;
-  }, [graph.edges, newTransaction]);
+  }, [visible.edges, newTransaction]);
   
   // Setup animation refresh timer
   useEffect(() => {
@@ -442,6 +524,34 @@ const Graph = ({ onNodeClick }) => {
             <RefreshIcon fontSize="small" />
           </Button>
 
+          {/* Toggle between businesses and their trading clusters */}
+          <Button
+            variant="contained"
+            className="no-outline"
+            color="#fff"
+            size="small"
+            onClick={() => setCollapsed(prev => !prev)}
+            title={collapsed ? "Expand clusters" : "Collapse clusters"}
+            style={{
+              position: 'absolute',
+              left: 50,
+              zIndex: 1000,
+              backgroundColor: collapsed ? 'rgba(43, 234, 251, 0.5)' : 'rgba(43, 234, 251, 0.2)',
+              borderRadius: '50%',
+              minWidth: '30px',
+              width: '30px',
+              height: '30px',
+              boxShadow: 'none'
+            }}
+            disableFocusRipple
+            disableRipple
+            disableTouchRipple
+            focusRipple={false}
+            tabIndex={-1}
+          >
+            <WorkspacesIcon fontSize="small" />
+          </Button>
+
 
           {/* Graph visualization */}
           {width === undefined || height === undefined ? (
@@ -459,6 +569,7 @@ const Graph = ({ onNodeClick }) => {
               annotations={annotation ? [annotation] : undefined}
               onNodeDrag={onNodeDrag}
               onNodePointerUp={onNodePointerUp}
+              onNodeDoubleClick={onNodeDoubleClick}
               onNodePointerEnter={onNodePointerEnter}
               onNodePointerLeave={onNodePointerLeave}
               onEdgePointerEnter={onEdgePointerEnter}
@@ -1,4 +1,4 @@
-import { interpolateBlues } from "d3-scale-chromatic";
+import { interpolateBlues, schemeTableau10 } from "d3-scale-chromatic";
 import PersonIcon from '@mui/icons-material/Person';
 
 const PERSON_ICON = {
@@ -28,9 +28,13 @@ const getRandomPastelColor = () => {
 // Store node colors persistently
 const nodeColorMap = new Map();
 
+const clusterColor = (clusterId) => schemeTableau10[clusterId % schemeTableau10.length];
+
 export const styleNode = (node, hover, selected) => {
-  // Check if this node already has a color assigned
-  if (!nodeColorMap.has(node.id)) {
+  // Businesses in the same trading cluster share a color
+  if (node.clusterId !== undefined && node.clusterId !== null) {
+    nodeColorMap.set(node.id, clusterColor(node.clusterId));
+  } else if (!nodeColorMap.has(node.id)) {
     // If not, generate and store a color for this node
     nodeColorMap.set(node.id, getRandomPastelColor());
   }
@@ -50,3 +54,59 @@ export const styleNode = (node, hover, selected) => {
 
   return { ...node, style };
 };
+
+/**
+ * Collapse every trading cluster into a single node at the center of its members,
+ * and merge the edges between clusters. Edges inside a cluster are dropped.
+ */
+export const collapseClusters = (nodes, edges) => {
+  const clusterOf = new Map();
+  const clusters = new Map();
+  nodes.forEach((node) => {
+    if (node.clusterId === undefined || node.clusterId === null) return;
+    clusterOf.set(node.id, node.clusterId);
+    const cluster = clusters.get(node.clusterId) ?? { x: 0, y: 0, size: 0 };
+    cluster.x += node.x ?? 0;
+    cluster.y += node.y ?? 0;
+    cluster.size += 1;
+    clusters.set(node.clusterId, cluster);
+  });
+
+  const clusterNodes = [...clusters].map(([clusterId, { x, y, size }]) => ({
+    id: `cluster-${clusterId}`,
+    label: `Cluster ${clusterId + 1} (${size})`,
+    clusterId,
+    isCluster: true,
+    x: x / size,
+    y: y / size,
+    radius: 25 + Math.min(Math.sqrt(size) * 5, 40),
+  }));
+
+  const clusterEdges = new Map();
+  edges.forEach((edge) => {
+    const source = clusterOf.get(edge.source);
+    const target = clusterOf.get(edge.target);
+    if (source === undefined || target === undefined || source === target) return;
+    const id = `cluster-${source}-cluster-${target}`;
+    const merged = clusterEdges.get(id) ?? {
+      id,
+      source: `cluster-${source}`,
+      target: `cluster-${target}`,
+      transactionCount: 0,
+      transactionAmount: 0,
+    };
+    merged.transactionCount += edge.transactionCount;
+    merged.transactionAmount += edge.transactionAmount;
+    clusterEdges.set(id, merged);
+  });
+
+  // Businesses outside any cluster stay as they are
+  const loose = nodes.filter((node) => !clusterOf.has(node.id));
+  const looseIds = new Set(loose.map((node) => node.id));
+  const looseEdges = edges.filter((edge) => looseIds.has(edge.source) && looseIds.has(edge.target));
+
+  return {
+    nodes: [...clusterNodes, ...loose],
+    edges: [...clusterEdges.values(), ...looseEdges],
+  };
+};
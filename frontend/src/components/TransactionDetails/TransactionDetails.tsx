@@ -17,16 +17,27 @@ import {
 } from "@mui/material";
 import { DateTimePicker } from "@mui/x-date-pickers/DateTimePicker";
 import dayjs, { Dayjs } from "dayjs";
-import { getSocket } from "../../services/socket";
+import { apiFetch } from "../../services/api";
+import { GraphDelta, getSocket, onGraphDelta } from "../../services/socket";
 import "./TransactionDetails.css";
 
 type Transaction = {
+  id: string;
   from: string;
   to: string;
   amount: number;
   timestamp: string;
 };
 
+type Pagination = {
+  nextCursor: string | null;
+  limit: number;
+  total?: number;
+};
+
+// Transactions are loaded from the API in pages of this size as the user pages through the table
+const FETCH_PAGE_SIZE = 200;
+
 type Filters = {
   name: string;
   start: Dayjs | null;
@@ -39,6 +50,9 @@ const TransactionDetailsTable = () => {
   const [transactionsData, setData] = useState<Transaction[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState<number | undefined>(undefined);
   const [newTransaction, setNewTransaction] = useState<Transaction | null>(
     null
   );
@@ -59,24 +73,67 @@ const TransactionDetailsTable = () => {
   const [sortBy, setSortBy] = useState<keyof Transaction>("timestamp");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
 
+  // Fetch one page of transactions with business names, newest first
+  const fetchPage = async (
+    cursor?: string
+  ): Promise<{ data: Transaction[]; pagination: Pagination }> => {
+    const params = new URLSearchParams({
+      limit: String(FETCH_PAGE_SIZE),
+      includeTotal: "true",
+    });
+    if (cursor) {
+      params.set("cursor", cursor);
+    }
+    const response = await apiFetch(`/api/businesses/transactions?${params}`);
+    if (!response.ok) {
+      throw new Error(`HTTP error! Status: ${response.status}`);
+    }
+    return response.json();
+  };
+
+  // Fetch the first page of transactions, replacing any loaded rows
+  const fetchTransactions = async (isInitialLoad = false) => {
+    if (isInitialLoad) {
+      setLoading(true);
+    }
+    try {
+      const result = await fetchPage();
+      setData(result.data);
+      setNextCursor(result.pagination.nextCursor);
+      setTotal(result.pagination.total);
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Append the next page of transactions
+  const loadMoreTransactions = async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      const result = await fetchPage(nextCursor);
+      setData((prevData) => {
+        // Skip rows that already arrived through a live update
+        const loadedIds = new Set(prevData.map((t) => t.id));
+        return [
+          ...prevData,
+          ...result.data.filter((t) => !loadedIds.has(t.id)),
+        ];
+      });
+      setNextCursor(result.pagination.nextCursor);
+      setTotal(result.pagination.total);
+    } catch (err: unknown) {
+      setError((err as Error).message);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   // Initial data fetch
   useEffect(() => {
-    (async () => {
-      setLoading(true);
-      try {
-        const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3000";
-        const response = await fetch(`${apiUrl}/api/businesses/transactions/`);
-        if (!response.ok) {
-          throw new Error(`HTTP error! Status: ${response.status}`);
-        }
-        const result = await response.json();
-        setData(result.data);
-      } catch (err: unknown) {
-        setError((err as Error).message);
-      } finally {
-        setLoading(false);
-      }
-    })();
+    fetchTransactions(true);
   }, []);
 
   // WebSocket connection for live updates
@@ -85,9 +142,15 @@ const TransactionDetailsTable = () => {
     const socket = getSocket();
 
     // Define event handler
-    const handleGraphUpdate = async (data: any) => {
-      if (data && data.newTransaction) {
-        const transaction = data.newTransaction;
+    const handleGraphDelta = (delta: GraphDelta, { gap }: { gap: boolean }) => {
+      // Transactions were missed, so reload the page
+      if (gap) {
+        fetchTransactions();
+        return;
+      }
+
+      if (delta.newTransaction) {
+        const transaction = delta.newTransaction;
 
         // Add the new transaction to our data
         setData((prevData) => {
@@ -95,6 +158,9 @@ const TransactionDetailsTable = () => {
           const newData = [transaction, ...prevData];
           return newData;
         });
+        setTotal((prevTotal) =>
+          prevTotal === undefined ? prevTotal : prevTotal + 1
+        );
 
         // Set new transaction for highlighting
         setNewTransaction(transaction);
@@ -106,12 +172,27 @@ const TransactionDetailsTable = () => {
       }
     };
 
-    // Register event listener
-    socket.on("graphUpdate", handleGraphUpdate);
+    // Rows carry business names, so renames and deletions require a refetch,
+    // imported transactions arrive in bulk without graph deltas, and after a
+    // resync the events missed while disconnected are gone
+    const handleBusinessChanged = () => {
+      fetchTransactions();
+    };
 
-    // Cleanup: remove event listener on unmount
+    // Register event listeners
+    const removeGraphDeltaListener = onGraphDelta(handleGraphDelta);
+    socket.on("businessUpdated", handleBusinessChanged);
+    socket.on("businessDeleted", handleBusinessChanged);
+    socket.on("importCompleted", handleBusinessChanged);
+    socket.on("resync", handleBusinessChanged);
+
+    // Cleanup: remove event listeners on unmount
     return () => {
-      socket.off("graphUpdate", handleGraphUpdate);
+      removeGraphDeltaListener();
+      socket.off("businessUpdated", handleBusinessChanged);
+      socket.off("businessDeleted", handleBusinessChanged);
+      socket.off("importCompleted", handleBusinessChanged);
+      socket.off("resync", handleBusinessChanged);
     };
   }, []);
 
@@ -144,6 +225,10 @@ const TransactionDetailsTable = () => {
   // Handle Pagination Changes
   const handleChangePage = (_event: unknown, newPage: number) => {
     setPage(newPage);
+    // Load the next page from the API before the user runs out of loaded rows
+    if ((newPage + 2) * rowsPerPage > filteredData.length) {
+      loadMoreTransactions();
+    }
   };
 
   const handleChangeRowsPerPage = (
@@ -222,7 +307,9 @@ const TransactionDetailsTable = () => {
         <Typography sx={{ fontWeight: "bold" }}>Transactions</Typography>
         <Chip
           size="medium"
-          label={`${filteredData.length} / ${transactionsData.length} records`}
+          label={`${filteredData.length} / ${
+            total ?? transactionsData.length
+          } records`}
         />
       </Box>
       {/* Toolbar */}
@@ -368,15 +455,11 @@ const TransactionDetailsTable = () => {
             {paginatedData.map((row, index) => {
               // Check if this is the new transaction that just came in
               const isNewTransaction =
-                newTransaction &&
-                row.from === newTransaction.from &&
-                row.to === newTransaction.to &&
-                row.amount === newTransaction.amount &&
-                row.timestamp === newTransaction.timestamp;
+                newTransaction && row.id === newTransaction.id;
 
               return (
                 <TableRow
-                  key={index}
+                  key={row.id || index}
                   className={isNewTransaction ? "new-transaction-row" : ""}
                 >
                   <TableCell>{formatTimestamp(row.timestamp)}</TableCell>
@@ -396,7 +479,8 @@ const TransactionDetailsTable = () => {
       <TablePagination
         rowsPerPageOptions={[5, 10, 15]}
         component="div"
-        count={filteredData.length}
+        // -1 tells MUI the row count is unknown while more pages remain
+        count={nextCursor ? -1 : filteredData.length}
         rowsPerPage={rowsPerPage}
         page={page}
         onPageChange={handleChangePage}
@@ -9,16 +9,27 @@ import {
   Paper,
   TablePagination,
   TableSortLabel,
+  Tooltip,
 } from "@mui/material";
-import { getSocket } from "../services/socket";
+import { apiFetch } from "../services/api";
+import { GraphDelta, getSocket, onGraphDelta } from "../services/socket";
+
+type RiskScore = {
+  score: number;
+  factors: { name: string; contribution: number; description: string }[];
+};
 
 type Business = {
   business_id: string;
   name: string;
   industry: string;
   totalTransactions?: number;
+  risk?: RiskScore | null;
+  riskScore?: number;
 };
 
+type SortField = "name" | "industry" | "totalTransactions" | "riskScore";
+
 type GraphNode = {
   id: string;
   label: string;
@@ -36,9 +47,7 @@ const TransactionTable = () => {
   const [rowsPerPage, setRowsPerPage] = useState(5);
 
   // Sorting State - default to transaction count descending
-  const [sortBy, setSortBy] = useState<
-    "name" | "industry" | "totalTransactions"
-  >("totalTransactions");
+  const [sortBy, setSortBy] = useState<SortField>("totalTransactions");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
 
   // Function to fetch business data and transaction counts
@@ -49,8 +58,7 @@ const TransactionTable = () => {
         setLoading(true);
       }
       // Fetch businesses
-      const apiUrl = import.meta.env.VITE_API_URL || "http://localhost:3000";
-      const response = await fetch(`${apiUrl}/api/businesses`);
+      const response = await apiFetch("/api/businesses");
       if (!response.ok) {
         throw new Error(`HTTP error! Status: ${response.status}`);
       }
@@ -61,10 +69,8 @@ const TransactionTable = () => {
       const countsMap: { [key: string]: number } = {};
       for (const business of businesses) {
         try {
-          const countResponse = await fetch(
-            `${
-              import.meta.env.VITE_API_URL || "http://localhost:3000"
-            }/api/businesses/${business.business_id}/transaction-count`
+          const countResponse = await apiFetch(
+            `/api/businesses/${business.business_id}/transaction-count`
           );
           if (countResponse.ok) {
             const countData = await countResponse.json();
@@ -84,6 +90,7 @@ const TransactionTable = () => {
       const enrichedBusinesses = businesses.map((business: Business) => ({
         ...business,
         totalTransactions: countsMap[business.business_id] || 0,
+        riskScore: business.risk?.score ?? 0,
       }));
 
       setBusinessData(enrichedBusinesses);
@@ -114,17 +121,15 @@ const TransactionTable = () => {
     };
 
     // Define event handlers
-    const handleGraphUpdate = async (data: {
-      nodes?: GraphNode[];
-      newTransaction?: {
-        from: string | { id: string };
-        to: string | { id: string };
-        amount: number;
-        timestamp: string;
-      };
-    }) => {
-      if (data && data.newTransaction) {
-        const transaction = data.newTransaction;
+    const handleGraphDelta = (delta: GraphDelta, { gap }: { gap: boolean }) => {
+      // Transactions were missed, so recount
+      if (gap) {
+        fetchBusinessData();
+        return;
+      }
+
+      if (delta.newTransaction) {
+        const transaction = delta.newTransaction;
         const fromId = getBusinessId(transaction.from);
         const toId = getBusinessId(transaction.to);
 
@@ -168,13 +173,61 @@ const TransactionTable = () => {
       }
     };
 
+    const handleBusinessUpdated = (updated: Business) => {
+      setBusinessData((prevBusinessData) =>
+        prevBusinessData.map((business) =>
+          business.business_id === updated.business_id
+            ? { ...business, name: updated.name, industry: updated.industry }
+            : business
+        )
+      );
+    };
+
+    const handleBusinessDeleted = (data: { business_id: string }) => {
+      setBusinessData((prevBusinessData) =>
+        prevBusinessData.filter(
+          (business) => business.business_id !== data.business_id
+        )
+      );
+    };
+
+    const handleRiskUpdated = (
+      updates: { business_id: string; risk: RiskScore }[]
+    ) => {
+      const updatedRisk = new Map(
+        updates.map((update) => [update.business_id, update.risk])
+      );
+      setBusinessData((prevBusinessData) =>
+        prevBusinessData.map((business) => {
+          const risk = updatedRisk.get(business.business_id);
+          return risk ? { ...business, risk, riskScore: risk.score } : business;
+        })
+      );
+    };
+
+    // Imports add many transactions at once without graph deltas, so recount.
+    // The same goes for events missed while disconnected that can't be replayed.
+    const handleImportCompleted = () => {
+      fetchBusinessData();
+    };
+
     // Register event listeners
-    socket.on("graphUpdate", handleGraphUpdate);
+    const removeGraphDeltaListener = onGraphDelta(handleGraphDelta);
     socket.on("initialData", handleInitialData);
+    socket.on("businessUpdated", handleBusinessUpdated);
+    socket.on("businessDeleted", handleBusinessDeleted);
+    socket.on("importCompleted", handleImportCompleted);
+    socket.on("riskUpdated", handleRiskUpdated);
+    socket.on("resync", handleImportCompleted);
     // Cleanup: remove event listeners on unmount
     return () => {
-      socket.off("graphUpdate", handleGraphUpdate);
+      removeGraphDeltaListener();
       socket.off("initialData", handleInitialData);
+      socket.off("businessUpdated", handleBusinessUpdated);
+      socket.off("businessDeleted", handleBusinessDeleted);
+      socket.off("importCompleted", handleImportCompleted);
+      socket.off("riskUpdated", handleRiskUpdated);
+      socket.off("resync", handleImportCompleted);
     };
   }, []);
 
@@ -191,7 +244,7 @@ const TransactionTable = () => {
   };
 
   // Handle sorting
-  const handleSort = (property: "name" | "industry" | "totalTransactions") => {
+  const handleSort = (property: SortField) => {
     const isAsc = sortBy === property && sortDirection === "asc";
     setSortDirection(isAsc ? "desc" : "asc");
     setSortBy(property);
@@ -258,6 +311,15 @@ const TransactionTable = () => {
                   <b>Total Transactions</b>
                 </TableSortLabel>
               </TableCell>
+              <TableCell align="right">
+                <TableSortLabel
+                  active={sortBy === "riskScore"}
+                  direction={sortDirection}
+                  onClick={() => handleSort("riskScore")}
+                >
+                  <b>Risk</b>
+                </TableSortLabel>
+              </TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
@@ -283,6 +345,25 @@ const TransactionTable = () => {
                   <TableCell>{row.name}</TableCell>
                   <TableCell>{row.industry}</TableCell>
                   <TableCell align="right">{row.totalTransactions}</TableCell>
+                  <TableCell align="right">
+                    {row.risk ? (
+                      <Tooltip
+                        title={
+                          <>
+                            {row.risk.factors.map((factor) => (
+                              <div key={factor.name}>
+                                +{factor.contribution}: {factor.description}
+                              </div>
+                            ))}
+                          </>
+                        }
+                      >
+                        <span>{row.risk.score}</span>
+                      </Tooltip>
+                    ) : (
+                      "-"
+                    )}
+                  </TableCell>
                 </TableRow>
               );
             })}
@@ -0,0 +1,15 @@
+// Base URL of the backend, shared by REST requests and the socket
+export const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+
+// Every API request and the socket handshake need a key; a viewer key is enough for the UI
+export const apiKey: string | undefined = import.meta.env.VITE_API_KEY;
+
+/**
+ * fetch() against the backend, with the API key attached
+ * @param path - Path starting with /api
+ */
+export const apiFetch = (path: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers);
+  if (apiKey) headers.set('X-API-Key', apiKey);
+  return fetch(`${apiUrl}${path}`, { ...init, headers });
+};
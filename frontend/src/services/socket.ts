@@ -1,11 +1,44 @@
 import { io, Socket } from 'socket.io-client';
+import { apiKey, apiUrl } from './api';
 
 // Create a single socket instance to be shared across components
-const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+
+// Comma-separated business IDs; when set, the graph starts from their neighborhood instead of the whole graph
+const graphSeeds: string | undefined = import.meta.env.VITE_GRAPH_SEEDS;
 
 // Use a global to ensure true singleton across HMR and StrictMode
 const globalKey = '__APP_SOCKET__' as const;
 
+export type GraphDelta = {
+  version: number;
+  // The last version the server sent this client; skips versions filtered out by subscriptions
+  previousVersion: number;
+  edge: { id: string; source: string; target: string; transactionCount: number; transactionAmount: number };
+  nodes: { id: string; label?: string }[];
+  newTransaction: { id: string; from: string; to: string; amount: number; timestamp: string };
+};
+
+type GraphDeltaHandler = (delta: GraphDelta, info: { gap: boolean }) => void;
+
+export type SubscriptionFilter = {
+  businessIds?: string[];
+  industries?: string[];
+  minAmount?: number;
+  maxAmount?: number;
+};
+
+export type Subscription = { id: string; filter: SubscriptionFilter; createdAt: string };
+
+// Version of the graph this client is up to date with; null until the first snapshot
+let graphVersion: number | null = null;
+const graphDeltaHandlers = new Set<GraphDeltaHandler>();
+
+// Position of the last event received, sent when reconnecting so the server can replay what was missed
+let lastEvent: { epoch: string; seq: number } | null = null;
+
+// Subscriptions the server accepted, sent when reconnecting so it keeps filtering events, including replayed ones
+const subscriptions = new Map<string, Subscription>();
+
 // Check if socket already exists on window object
 let socket: Socket;
 
@@ -17,6 +50,25 @@ if (typeof window !== 'undefined') {
       reconnectionAttempts: 5,
       autoConnect: false, // Don't auto-connect, we'll do it manually
       transports: ['websocket'], // Use only WebSocket transport for real-time performance
+      // Evaluated on every connection attempt, so a reconnect carries the latest position
+      auth: (cb) =>
+        cb({
+          apiKey,
+          ...(graphSeeds && { seeds: graphSeeds }),
+          ...(lastEvent && { epoch: lastEvent.epoch, lastSeq: lastEvent.seq }),
+          ...(graphVersion !== null && { graphVersion }),
+          ...(subscriptions.size > 0 && { subscriptions: Array.from(subscriptions.values()) }),
+        }),
+    });
+
+    // Broadcast events and initialData end with their position in the server's event log, and
+    // so does resync, which tells components to reload because the missed events are gone.
+    // initialData may arrive after live events, so the position only moves forward within an epoch.
+    socket.onAny((_event, ...args) => {
+      const position = args[args.length - 1];
+      if (!position || typeof position.epoch !== 'string' || typeof position.seq !== 'number') return;
+      if (lastEvent && lastEvent.epoch === position.epoch && lastEvent.seq >= position.seq) return;
+      lastEvent = { epoch: position.epoch, seq: position.seq };
     });
 
     socket.on('connect', () => {
@@ -31,6 +83,22 @@ if (typeof window !== 'undefined') {
       console.error('WebSocket connection error:', error.message);
     });
 
+    socket.on('initialDataError', (response) => {
+      console.error('Could not load the initial graph:', response.error, response.details ?? '');
+    });
+
+    socket.on('initialData', (data) => {
+      graphVersion = data.version ?? null;
+    });
+
+    // Deltas already included in the last snapshot are dropped; a skipped version means one was missed
+    socket.on('graphDelta', (delta: GraphDelta) => {
+      if (graphVersion !== null && delta.version <= graphVersion) return;
+      const gap = graphVersion !== null && delta.previousVersion !== graphVersion;
+      graphVersion = delta.version;
+      graphDeltaHandlers.forEach((handler) => handler(delta, { gap }));
+    });
+
     // Store on window to persist across HMR
     (window as any)[globalKey] = socket;
   } else {
@@ -78,6 +146,82 @@ export const getSocket = (): Socket => {
   return socket;
 };
 
+/**
+ * Listen for graph deltas. When gap is true, deltas before this one were missed and the
+ * listener should reload its data, e.g. with requestGraphSnapshot.
+ * @returns A function that removes the listener
+ */
+export const onGraphDelta = (handler: GraphDeltaHandler): (() => void) => {
+  graphDeltaHandlers.add(handler);
+  return () => {
+    graphDeltaHandlers.delete(handler);
+  };
+};
+
+/**
+ * Request the graph as sent on connection, to resynchronize after missing deltas
+ */
+export const requestGraphSnapshot = (): Promise<{ nodes: any[]; edges: any[]; version: number }> =>
+  new Promise((resolve, reject) => {
+    getSocket().emit('getGraphSnapshot', (response: any) => {
+      if (!response.success) {
+        reject(new Error(response.error));
+        return;
+      }
+      graphVersion = response.data.version;
+      resolve(response.data);
+    });
+  });
+
+/**
+ * Request the subgraph around some businesses, e.g. to expand a node
+ */
+export const requestNeighborhood = (query: {
+  seeds: string[];
+  hops?: number;
+  maxNodes?: number;
+  startDate?: string;
+  endDate?: string;
+  minAmount?: number;
+}): Promise<{ nodes: any[]; edges: any[]; truncated: boolean }> =>
+  new Promise((resolve, reject) => {
+    getSocket().emit('getNeighborhood', query, (response: any) => {
+      if (response.success) resolve(response.data);
+      else reject(new Error(response.error));
+    });
+  });
+
+/**
+ * Only receive graph deltas and alerts for transactions matching the filter, or any other subscription.
+ * The subscription is kept across reconnects.
+ */
+export const subscribe = (filter: SubscriptionFilter): Promise<Subscription> =>
+  new Promise((resolve, reject) => {
+    getSocket().emit('subscribe', filter, (response: any) => {
+      if (!response.success) {
+        reject(new Error(response.error));
+        return;
+      }
+      subscriptions.set(response.data.id, response.data);
+      resolve(response.data);
+    });
+  });
+
+/**
+ * Remove one subscription, or all of them without an ID, to receive every event again
+ */
+export const unsubscribe = (id?: string): Promise<number> => {
+  if (id === undefined) subscriptions.clear();
+  else subscriptions.delete(id);
+
+  return new Promise((resolve, reject) => {
+    getSocket().emit('unsubscribe', { id }, (response: any) => {
+      if (response.success) resolve(response.data.removed);
+      else reject(new Error(response.error));
+    });
+  });
+};
+
 export const disconnectSocket = (): void => {
   if (socket && socket.connected) {
     socket.disconnect();